@@ -1,13 +1,34 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { useRealtimeVoice } from './hooks/useRealtimeVoice';
+import { useRealtimeVoice, DEFAULT_LANGUAGE } from './hooks/useRealtimeVoice';
+import { useGatewayVoice } from './hooks/useGatewayVoice';
+import { useAnnouncements } from './hooks/useAnnouncements';
+import { useProfiles } from './hooks/useProfiles';
 import ParticleOrb from './components/ParticleOrb';
-import { Mic, Radio, Zap, Activity, Chrome } from 'lucide-react';
+import { Radio, Zap, Activity, Chrome } from 'lucide-react';
 import NeuralNetworkBackground from './components/NeuralNetworkBackground';
 import ProcessingFlow from './components/ProcessingFlow';
+import ConfirmationCard from './components/ConfirmationCard';
+import ToolPermissionCard from './components/ToolPermissionCard';
+import Captions from './components/Captions';
+import TextChat from './components/TextChat';
+import AnnouncementBanner from './components/AnnouncementBanner';
+import ProfilePicker from './components/ProfilePicker';
+import VideoSharePanel from './components/VideoSharePanel';
 import { soundManager } from './utils/SoundManager';
 
-const WEBHOOK_URL = (import.meta as any).env?.VITE_N8N_WEBHOOK_URL || '';
+const WEBHOOK_URL = import.meta.env.VITE_N8N_WEBHOOK_URL || '';
+const GATEWAY_URL = import.meta.env.VITE_GATEWAY_URL || 'ws://localhost:8080';
+const GATEWAY_TOKEN = import.meta.env.VITE_GATEWAY_TOKEN || '';
+// Profile this device starts on until someone picks another
+const DEFAULT_PROFILE = import.meta.env.VITE_PROFILE || '';
+
+// "webhook": Web Speech API -> n8n -> MP3 reply
+// "live": full-duplex PCM stream through server/gateway.ts (Gemini Live)
+type VoiceMode = 'webhook' | 'live';
+const MODE_STORAGE_KEY = 'nexora.voiceMode';
+const SPEAK_STORAGE_KEY = 'nexora.speakReplies';
+const PROFILE_STORAGE_KEY = 'nexora.profile';
 
 const AGENT_MESSAGES = [
   "Encrypting audio stream...",
@@ -19,6 +40,25 @@ const AGENT_MESSAGES = [
 ];
 
 const App: React.FC = () => {
+  const [mode, setMode] = useState<VoiceMode>(() =>
+    localStorage.getItem(MODE_STORAGE_KEY) === 'live' ? 'live' : 'webhook'
+  );
+
+  const [speakReplies, setSpeakReplies] = useState(() => localStorage.getItem(SPEAK_STORAGE_KEY) !== 'false');
+
+  // Assistant profile ('' = the gateway's default); a profile the gateway no longer offers is ignored
+  const profileOptions = useProfiles(GATEWAY_URL);
+  const [selectedProfile, setSelectedProfile] = useState(() => localStorage.getItem(PROFILE_STORAGE_KEY) ?? DEFAULT_PROFILE);
+  const profile = profileOptions.profiles.some(p => p.name === selectedProfile) ? selectedProfile : '';
+  const profileLanguage = profileOptions.profiles.find(p => p.name === (profile || profileOptions.defaultProfile))?.language;
+
+  // Both hooks stay mounted (rules of hooks); only the selected one is driven
+  const webhookVoice = useRealtimeVoice(WEBHOOK_URL, speakReplies, profileLanguage || DEFAULT_LANGUAGE);
+  const liveVoice = useGatewayVoice(GATEWAY_URL, GATEWAY_TOKEN, speakReplies, profile);
+  // Pushed by automations through the gateway, in either mode
+  // Only with a gateway actually configured, not the local default
+  const { announcement, dismiss: dismissAnnouncement } = useAnnouncements(import.meta.env.VITE_GATEWAY_URL || '', GATEWAY_TOKEN, speakReplies);
+
   const {
     isListening,
     isProcessing,
@@ -27,8 +67,10 @@ const App: React.FC = () => {
     startInteraction,
     stopInteraction,
     error,
-    transcript
-  } = useRealtimeVoice(WEBHOOK_URL);
+    transcript,
+    messages,
+    sendText
+  } = mode === 'live' ? liveVoice : webhookVoice;
 
   const [statusMessage, setStatusMessage] = useState("");
   const hasInteractedRef = useRef(false);
@@ -66,6 +108,11 @@ const App: React.FC = () => {
     if (isPlaying) soundManager.playSuccess();
   }, [isListening, isProcessing, isPlaying]);
 
+  // Distinct earcon ahead of each announcement (silent until the first tap unlocks audio)
+  useEffect(() => {
+    if (announcement) soundManager.playAnnouncement();
+  }, [announcement?.id]);
+
   const handleOrbClick = () => {
     handleStart();
     if (isListening) {
@@ -75,6 +122,30 @@ const App: React.FC = () => {
     }
   };
 
+  const handleSendText = (text: string) => {
+    handleStart();
+    sendText(text);
+  };
+
+  const handleToggleSpeak = () => {
+    localStorage.setItem(SPEAK_STORAGE_KEY, String(!speakReplies));
+    setSpeakReplies(!speakReplies);
+  };
+
+  const handleModeChange = (next: VoiceMode) => {
+    if (next === mode) return;
+    stopInteraction();
+    localStorage.setItem(MODE_STORAGE_KEY, next);
+    setMode(next);
+  };
+
+  const handleProfileChange = (next: string) => {
+    if (next === profile) return;
+    stopInteraction();
+    localStorage.setItem(PROFILE_STORAGE_KEY, next);
+    setSelectedProfile(next);
+  };
+
   const appState = isListening ? 'listening' : isProcessing ? 'processing' : isPlaying ? 'speaking' : 'idle';
   const isSecure = typeof window !== 'undefined' && window.isSecureContext;
 
@@ -99,6 +170,27 @@ const App: React.FC = () => {
         <div className="absolute inset-0 bg-[linear-gradient(rgba(255,255,255,0.03)_1px,transparent_1px),linear-gradient(90deg,rgba(255,255,255,0.03)_1px,transparent_1px)] bg-[size:40px_40px] [mask-image:radial-gradient(ellipse_60%_60%_at_50%_50%,black,transparent)]" />
       </div>
 
+      {/* Mode Switch and assistant profile */}
+      <div className="absolute top-8 left-8 z-50 flex flex-col items-start gap-2">
+        <div className="flex items-center gap-1 p-1 rounded-full bg-white/5 border border-white/10 backdrop-blur-md font-mono text-[10px] sm:text-xs tracking-wide">
+          {(['webhook', 'live'] as VoiceMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => handleModeChange(m)}
+              className={`flex items-center gap-1.5 px-3 py-1 rounded-full uppercase transition-colors ${mode === m ? 'bg-cyan-500/20 text-cyan-300 shadow-[0_0_10px_rgba(34,211,238,0.3)]' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              {m === 'live' ? <Radio className="w-3 h-3" /> : <Zap className="w-3 h-3" />}
+              {m}
+            </button>
+          ))}
+        </div>
+        {profileOptions.profiles.length > 0 && (
+          <ProfilePicker options={profileOptions} value={profile} onChange={handleProfileChange} />
+        )}
+      </div>
+
+      {announcement && <AnnouncementBanner announcement={announcement} onDismiss={dismissAnnouncement} />}
+
       {/* Chrome Badge */}
       <div className="absolute top-8 right-8 z-50 flex items-center gap-2 px-3 py-1.5 rounded-full bg-white/5 border border-white/10 backdrop-blur-md shadow-[0_0_15px_rgba(34,211,238,0.3)] hover:bg-white/10 transition-colors cursor-help group">
         <Chrome className="w-4 h-4 text-cyan-400 animate-pulse group-hover:animate-spin" />
@@ -108,6 +200,13 @@ const App: React.FC = () => {
         </div>
       </div>
 
+      {/* Camera / screen sharing (live mode) */}
+      {mode === 'live' && (
+        <div className="absolute top-20 right-8 z-50">
+          <VideoSharePanel video={liveVoice.video} />
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="relative z-10 flex flex-col items-center justify-between min-h-[500px] h-full py-20 md:py-480 md:justify-center md:gap-8 w-full max-w-2xl px-6">
 
@@ -123,7 +222,9 @@ const App: React.FC = () => {
 
         {/* Live Transcription Overlay - Dynamic & Floating */}
         <div className="h-12 md:h-16 flex items-end justify-center w-full flex-shrink-0">
-          {transcript && (isListening || isProcessing) ? (
+          {mode === 'live' ? (
+            <Captions captions={liveVoice.captions} />
+          ) : transcript && (isListening || isProcessing) ? (
             <div className="text-center animate-in fade-in slide-in-from-bottom-4 duration-300">
               <p className="text-lg md:text-2xl font-light text-white drop-shadow-[0_0_10px_rgba(255,255,255,0.5)]">
                 "{transcript}"
@@ -146,6 +247,7 @@ const App: React.FC = () => {
           <ParticleOrb
             state={isPlaying ? 'playing' : isProcessing ? 'processing' : isListening ? 'listening' : 'idle'}
             audioLevel={audioLevel}
+            pulse={!!announcement}
           />
 
           {/* Tap Prompt (Only when idle) */}
@@ -156,6 +258,20 @@ const App: React.FC = () => {
           )}
         </div>
 
+        {/* Pending sensitive automation (live mode) */}
+        {mode === 'live' && liveVoice.confirmation && (
+          <ConfirmationCard confirmation={liveVoice.confirmation} onRespond={liveVoice.respondToConfirmation} />
+        )}
+
+        {/* Device action waiting for permission (live mode) */}
+        {mode === 'live' && liveVoice.toolCalls.length > 0 && (
+          <ToolPermissionCard
+            call={liveVoice.toolCalls[0]}
+            queued={liveVoice.toolCalls.length - 1}
+            onRespond={liveVoice.respondToToolCall}
+          />
+        )}
+
         {/* Status & Processing Flow */}
         <div className="h-24 w-full flex flex-col items-center justify-end gap-2 md:gap-4 flex-shrink-0 mb-4 md:mb-0">
 
@@ -179,13 +295,21 @@ const App: React.FC = () => {
 
         {/* Error Display */}
         {error && (
-          <div className="bg-red-500/10 border border-red-500/20 text-red-400 px-6 py-3 rounded-lg backdrop-blur-md text-sm font-mono flex items-center gap-3 shadow-[0_0_20px_rgba(239,68,68,0.2)] animate-shake mt-4 fixed bottom-10 z-50">
+          <div className="bg-red-500/10 border border-red-500/20 text-red-400 px-6 py-3 rounded-lg backdrop-blur-md text-sm font-mono flex items-center gap-3 shadow-[0_0_20px_rgba(239,68,68,0.2)] animate-shake mt-4 fixed bottom-24 z-50">
             <div className="w-2 h-2 bg-red-500 rounded-full animate-ping" />
             {error}
           </div>
         )}
       </div>
 
+      {/* Typed input, both modes */}
+      <TextChat
+        messages={messages}
+        onSend={handleSendText}
+        speakReplies={speakReplies}
+        onToggleSpeak={handleToggleSpeak}
+      />
+
       <style>{`
         @keyframes shake {
           0%, 100% { transform: translateX(0); }
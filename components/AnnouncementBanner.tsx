@@ -0,0 +1,31 @@
+import React from 'react';
+import { BellRing, X } from 'lucide-react';
+import type { Announcement } from '../hooks/useAnnouncements';
+
+interface AnnouncementBannerProps {
+    announcement: Announcement;
+    onDismiss: () => void;
+}
+
+// A message pushed by an automation ("The washing machine is done"), shown while it is read out
+const AnnouncementBanner: React.FC<AnnouncementBannerProps> = ({ announcement, onDismiss }) => (
+    <div className="fixed top-20 inset-x-0 z-50 flex justify-center px-4 pointer-events-none">
+        <div
+            key={announcement.id}
+            className="w-full max-w-md flex items-start gap-3 bg-amber-500/10 border border-amber-500/30 rounded-xl backdrop-blur-md px-5 py-4 shadow-[0_0_30px_rgba(245,158,11,0.2)] pointer-events-auto animate-in fade-in slide-in-from-top-4 duration-300"
+        >
+            <BellRing className="w-5 h-5 mt-0.5 text-amber-400 animate-pulse flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+                <div className="font-mono text-[10px] tracking-[0.2em] uppercase text-amber-400">
+                    {announcement.title || 'Announcement'}
+                </div>
+                <p className="mt-1 text-white text-base md:text-lg font-light">{announcement.text}</p>
+            </div>
+            <button onClick={onDismiss} className="p-1 rounded-full text-slate-400 hover:text-white hover:bg-white/10 transition-colors">
+                <X className="w-4 h-4" />
+            </button>
+        </div>
+    </div>
+);
+
+export default AnnouncementBanner;
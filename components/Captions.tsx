@@ -0,0 +1,41 @@
+import React from 'react';
+import type { Caption, LiveCaptions } from '../hooks/useGatewayVoice';
+
+interface CaptionsProps {
+    captions: LiveCaptions;
+}
+
+const CaptionLine: React.FC<{ label: string; caption: Caption; className: string }> = ({ label, caption, className }) => (
+    <p className={`text-center animate-in fade-in duration-300 ${className}`}>
+        <span className="font-mono text-[10px] tracking-[0.3em] uppercase opacity-50 mr-2">{label}</span>
+        {caption.text}
+        {!caption.final && <span className="inline-block w-1.5 h-4 md:h-5 ml-1 align-middle bg-current opacity-60 animate-pulse" />}
+    </p>
+);
+
+// Live mode: what the user said and what the assistant is saying, as they are transcribed
+const Captions: React.FC<CaptionsProps> = ({ captions }) => {
+    const { user, assistant } = captions;
+    if (!user?.text && !assistant?.text) return <div className="h-4 md:h-8" />;
+
+    return (
+        <div className="flex flex-col items-center gap-1 max-w-2xl px-4">
+            {user?.text && (
+                <CaptionLine
+                    label="You"
+                    caption={user}
+                    className="text-base md:text-xl font-light text-white drop-shadow-[0_0_10px_rgba(255,255,255,0.5)]"
+                />
+            )}
+            {assistant?.text && (
+                <CaptionLine
+                    label="Nexora"
+                    caption={assistant}
+                    className="text-sm md:text-lg font-light text-cyan-300/90 line-clamp-2"
+                />
+            )}
+        </div>
+    );
+};
+
+export default Captions;
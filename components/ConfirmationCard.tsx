@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert, Check, X } from 'lucide-react';
+import type { PendingConfirmation } from '../hooks/useGatewayVoice';
+
+interface ConfirmationCardProps {
+    confirmation: PendingConfirmation;
+    onRespond: (approved: boolean) => void;
+}
+
+const formatValue = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+// Shown while the gateway holds a sensitive automation; the user can also answer out loud
+const ConfirmationCard: React.FC<ConfirmationCardProps> = ({ confirmation, onRespond }) => {
+    const [secondsLeft, setSecondsLeft] = useState(0);
+
+    useEffect(() => {
+        const tick = () => setSecondsLeft(Math.max(0, Math.ceil((confirmation.expiresAt - Date.now()) / 1000)));
+        tick();
+        const interval = setInterval(tick, 500);
+        return () => clearInterval(interval);
+    }, [confirmation.expiresAt]);
+
+    const args = Object.entries(confirmation.args);
+
+    return (
+        <div className="w-full max-w-sm bg-amber-500/10 border border-amber-500/30 rounded-xl backdrop-blur-md px-5 py-4 shadow-[0_0_30px_rgba(245,158,11,0.15)] animate-in fade-in slide-in-from-bottom-4 duration-300">
+            <div className="flex items-center gap-2 text-amber-400 font-mono text-[10px] tracking-[0.2em] uppercase">
+                <ShieldAlert className="w-4 h-4" />
+                <span>Confirmation Required</span>
+                <span className="ml-auto text-amber-500/60">{secondsLeft}s</span>
+            </div>
+
+            <p className="mt-2 text-white text-base md:text-lg font-light">{confirmation.prompt}</p>
+
+            {args.length > 0 && (
+                <div className="mt-2 font-mono text-[10px] md:text-xs text-slate-400 space-y-0.5">
+                    <div className="text-amber-500/70">{confirmation.tool}</div>
+                    {args.map(([key, value]) => (
+                        <div key={key}>
+                            <span className="text-slate-500">{key}:</span> {formatValue(value)}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="mt-4 flex gap-3">
+                <button
+                    onClick={() => onRespond(true)}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-amber-500/20 border border-amber-500/40 text-amber-300 text-xs font-mono tracking-widest uppercase hover:bg-amber-500/30 transition-colors"
+                >
+                    <Check className="w-4 h-4" /> Confirm
+                </button>
+                <button
+                    onClick={() => onRespond(false)}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-slate-800/60 border border-slate-600/40 text-slate-300 text-xs font-mono tracking-widest uppercase hover:bg-slate-700/60 transition-colors"
+                >
+                    <X className="w-4 h-4" /> Cancel
+                </button>
+            </div>
+
+            <p className="mt-2 text-center text-[10px] font-mono text-slate-500">or answer "yes" / "no" out loud</p>
+        </div>
+    );
+};
+
+export default ConfirmationCard;
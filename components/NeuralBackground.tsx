@@ -40,13 +40,11 @@ const NeuralBackground: React.FC<NeuralProps> = ({ active }) => {
         }
 
         let animationId: number;
-        let time = 0;
 
         const animate = () => {
             ctx.clearRect(0, 0, width, height);
 
             const speedMultiplier = active ? 2.5 : 0.5;
-            time += 0.01 * speedMultiplier;
 
             // Update and Draw Particles
             ctx.fillStyle = active ? 'rgba(34, 211, 238, 0.4)' : 'rgba(148, 163, 184, 0.2)';
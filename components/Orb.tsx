@@ -137,7 +137,7 @@ const Orb: React.FC<OrbProps> = ({ level, state }) => {
         let z = (p.baseX + jx) * Math.sin(autoAngle * autoRotSpeedY * 100 + mouseRef.current.x * 0.001) + (p.baseZ + jz) * Math.cos(autoAngle * autoRotSpeedY * 100 + mouseRef.current.x * 0.001);
 
         // Tilt X (Look up/down)
-        let y = (p.baseY + jy) * Math.cos(targetTiltX) - z * Math.sin(targetTiltX);
+        const y = (p.baseY + jy) * Math.cos(targetTiltX) - z * Math.sin(targetTiltX);
         z = (p.baseY + jy) * Math.sin(targetTiltX) + z * Math.cos(targetTiltX);
 
         // Tilt Y (Look left/right extra)
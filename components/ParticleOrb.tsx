@@ -8,6 +8,7 @@ import * as THREE from 'three';
 interface ParticleOrbProps {
     state: 'idle' | 'listening' | 'processing' | 'playing';
     audioLevel: number; // 0 to 1
+    pulse?: boolean; // Heartbeat to draw attention (announcements)
 }
 
 const COUNT = 2500; // Increased particle count for denser visual
@@ -29,7 +30,7 @@ const generateParticles = (shape: 'sphere' | 'mic' | 'brain' | 'wave') => {
         } else if (shape === 'mic') {
             // Cylinder body
             const h = (Math.random() - 0.5) * 4;
-            let r = 1.0;
+            const r = 1.0;
             if (h > 1.5) { // Head
                 const theta = Math.random() * Math.PI * 2;
                 const phi = Math.acos((Math.random() * 2) - 1);
@@ -76,7 +77,7 @@ const generateParticles = (shape: 'sphere' | 'mic' | 'brain' | 'wave') => {
     return positions;
 };
 
-const Particles = ({ state, audioLevel }: { state: string, audioLevel: number }) => {
+const Particles = ({ state, audioLevel, pulse }: { state: string, audioLevel: number, pulse: boolean }) => {
     const points = useRef<THREE.Points>(null!);
 
     // Immutable target shapes
@@ -181,6 +182,12 @@ const Particles = ({ state, audioLevel }: { state: string, audioLevel: number })
                 tx *= scale; ty *= scale; tz *= scale;
             }
 
+            // Attention pulse on top of whatever the state is doing
+            if (pulse) {
+                const beat = 1 + Math.pow(Math.abs(Math.sin(time * 4)), 4) * 0.12;
+                tx *= beat; ty *= beat; tz *= beat;
+            }
+
             // Apply Transition Noise ("Scattering Effect")
             if (noiseFactor > 0) {
                 tx += noiseOffsets[ix] * noiseFactor;
@@ -199,13 +206,14 @@ const Particles = ({ state, audioLevel }: { state: string, audioLevel: number })
     });
 
     const pointColor = useMemo(() => {
+        if (pulse) return '#f59e0b'; // Amber
         switch (state) {
             case 'listening': return '#ef4444'; // Red
             case 'playing': return '#22d3ee'; // Cyan
             case 'processing': return '#a855f7'; // Purple
             default: return '#0ea5e9'; // Sky Blue
         }
-    }, [state]);
+    }, [state, pulse]);
 
     return (
         <points ref={points}>
@@ -235,11 +243,11 @@ const Particles = ({ state, audioLevel }: { state: string, audioLevel: number })
     );
 };
 
-export default function ParticleOrb({ state, audioLevel }: ParticleOrbProps) {
+export default function ParticleOrb({ state, audioLevel, pulse = false }: ParticleOrbProps) {
     return (
         <div className="w-[300px] h-[300px] md:w-[450px] md:h-[450px] relative transition-all duration-500">
             <Canvas camera={{ position: [0, 0, 9], fov: 60 }} gl={{ antialias: true, alpha: true }}>
-                <Particles state={state} audioLevel={audioLevel} />
+                <Particles state={state} audioLevel={audioLevel} pulse={pulse} />
                 <OrbitControls enableZoom={false} enablePan={false} autoRotate={false} />
 
                 {/* Post-Processing Pipeline */}
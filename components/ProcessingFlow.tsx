@@ -31,12 +31,6 @@ const ProcessingFlow: React.FC<ProcessingFlowProps> = ({ state }) => {
             // Actually, if we are in "processing" state, we have already done "Mic".
             // So we should see Mic (done) -> Server (active) -> Brain (next).
 
-            const sequence = async () => {
-                setActiveStep(1); // Server
-                setTimeout(() => setActiveStep(2), 800); // Brain
-                setTimeout(() => setActiveStep(1), 1600); // Loop or stay?
-            };
-
             // A simple loop for "Thinking"
             let phase = 0;
             interval = setInterval(() => {
@@ -59,10 +53,6 @@ const ProcessingFlow: React.FC<ProcessingFlowProps> = ({ state }) => {
     return (
         <div className="flex items-center gap-3 md:gap-6 bg-black/40 backdrop-blur-md p-4 rounded-2xl border border-white/5 shadow-2xl animate-in fade-in zoom-in duration-300">
             {steps.map((step, idx) => {
-                const isActive = idx === activeStep;
-                // Mic is past if we are processing or speaking
-                const isPast = (state === 'processing' && idx < activeStep) || (state === 'speaking' && idx < 3) || (state === 'processing' && idx === 0);
-
                 // Special logic:
                 // If listening: idx 0 is active.
                 // If processing: idx 1 or 2 is active. idx 0 is past.
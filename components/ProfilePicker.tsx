@@ -0,0 +1,29 @@
+import React from 'react';
+import { UserRound } from 'lucide-react';
+import type { GatewayProfiles } from '../hooks/useProfiles';
+
+interface ProfilePickerProps {
+    options: GatewayProfiles;
+    // '' for the gateway's default
+    value: string;
+    onChange: (profile: string) => void;
+}
+
+// Which assistant this device talks to (kitchen, office, kids...), as configured on the gateway
+const ProfilePicker: React.FC<ProfilePickerProps> = ({ options, value, onChange }) => (
+    <label className="flex items-center gap-1.5 px-3 py-1 rounded-full bg-white/5 border border-white/10 backdrop-blur-md font-mono text-[10px] sm:text-xs tracking-wide text-slate-300">
+        <UserRound className="w-3 h-3 text-cyan-400" />
+        <select
+            value={value}
+            onChange={e => onChange(e.target.value)}
+            className="bg-transparent uppercase outline-none cursor-pointer [&>option]:bg-slate-900"
+        >
+            <option value="">{options.defaultProfile ? `default (${options.defaultProfile})` : 'default'}</option>
+            {options.profiles.map(p => (
+                <option key={p.name} value={p.name}>{p.name}</option>
+            ))}
+        </select>
+    </label>
+);
+
+export default ProfilePicker;
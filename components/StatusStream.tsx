@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState } from 'react';
 
 interface StatusStreamProps {
     isProcessing: boolean;
@@ -21,7 +21,6 @@ const LOG_TEMPLATES = [
 
 const StatusStream: React.FC<StatusStreamProps> = ({ isProcessing, isPlaying, transcript }) => {
     const [logs, setLogs] = useState<string[]>([]);
-    const containerRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
         if (isProcessing) {
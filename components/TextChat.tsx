@@ -0,0 +1,82 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Send, Volume2, VolumeX } from 'lucide-react';
+import type { ChatMessage } from '../hooks/useRealtimeVoice';
+import { MAX_TEXT_LENGTH } from '../shared/protocol';
+
+interface TextChatProps {
+    messages: ChatMessage[];
+    onSend: (text: string) => void;
+    speakReplies: boolean;
+    onToggleSpeak: () => void;
+}
+
+// Recent turns shown above the input; the hook keeps a longer log
+const VISIBLE_MESSAGES = 6;
+
+// Typing instead of talking, for quiet rooms or a blocked microphone. Works in both modes.
+const TextChat: React.FC<TextChatProps> = ({ messages, onSend, speakReplies, onToggleSpeak }) => {
+    const [draft, setDraft] = useState('');
+    const logRef = useRef<HTMLDivElement>(null);
+    const visible = messages.slice(-VISIBLE_MESSAGES);
+
+    useEffect(() => {
+        logRef.current?.scrollTo({ top: logRef.current.scrollHeight, behavior: 'smooth' });
+    }, [messages]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const text = draft.trim();
+        if (!text) return;
+        onSend(text);
+        setDraft('');
+    };
+
+    return (
+        <div className="fixed bottom-4 inset-x-0 z-40 flex justify-center px-4 pointer-events-none">
+            <div className="w-full max-w-xl flex flex-col gap-2 pointer-events-auto">
+                {visible.length > 0 && (
+                    <div ref={logRef} className="max-h-32 overflow-y-auto space-y-1 px-1 text-xs md:text-sm [mask-image:linear-gradient(to_bottom,transparent,black_30%)]">
+                        {visible.map((message, i) => (
+                            <p key={messages.length - visible.length + i} className={message.role === 'user' ? 'text-right text-slate-300' : 'text-left text-cyan-300/90'}>
+                                <span className="font-mono text-[10px] tracking-[0.3em] uppercase opacity-50 mr-2">
+                                    {message.role === 'user' ? 'You' : 'Nexora'}
+                                </span>
+                                {message.text}
+                            </p>
+                        ))}
+                    </div>
+                )}
+
+                <form
+                    onSubmit={handleSubmit}
+                    className="flex items-center gap-2 p-1.5 rounded-full bg-white/5 border border-white/10 backdrop-blur-md focus-within:border-cyan-500/40 transition-colors"
+                >
+                    <button
+                        type="button"
+                        onClick={onToggleSpeak}
+                        title={speakReplies ? 'Replies are spoken' : 'Replies are text only'}
+                        className={`p-2 rounded-full transition-colors ${speakReplies ? 'text-cyan-400 hover:bg-cyan-500/10' : 'text-slate-500 hover:bg-white/5'}`}
+                    >
+                        {speakReplies ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+                    </button>
+                    <input
+                        value={draft}
+                        onChange={e => setDraft(e.target.value)}
+                        maxLength={MAX_TEXT_LENGTH}
+                        placeholder="Type a message..."
+                        className="flex-1 min-w-0 bg-transparent text-sm text-white placeholder:text-slate-500 font-light outline-none"
+                    />
+                    <button
+                        type="submit"
+                        disabled={!draft.trim()}
+                        className="p-2 rounded-full bg-cyan-500/20 text-cyan-300 hover:bg-cyan-500/30 disabled:opacity-30 disabled:hover:bg-cyan-500/20 transition-colors"
+                    >
+                        <Send className="w-4 h-4" />
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default TextChat;
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { Smartphone, Check, X } from 'lucide-react';
+import type { PendingToolCall } from '../hooks/useGatewayVoice';
+
+interface ToolPermissionCardProps {
+    call: PendingToolCall;
+    // How many more are waiting behind this one
+    queued: number;
+    onRespond: (allowed: boolean, remember: boolean) => void;
+}
+
+const formatValue = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+// The assistant wants to do something on this device (timer, link, clipboard, location, volume)
+const ToolPermissionCard: React.FC<ToolPermissionCardProps> = ({ call, queued, onRespond }) => {
+    const [secondsLeft, setSecondsLeft] = useState(0);
+    const [remember, setRemember] = useState(false);
+
+    useEffect(() => {
+        const tick = () => setSecondsLeft(Math.max(0, Math.ceil((call.expiresAt - Date.now()) / 1000)));
+        tick();
+        const interval = setInterval(tick, 500);
+        return () => clearInterval(interval);
+    }, [call.expiresAt]);
+
+    // A new request starts unticked
+    useEffect(() => setRemember(false), [call.id]);
+
+    const args = Object.entries(call.args);
+
+    return (
+        <div className="w-full max-w-sm bg-cyan-500/10 border border-cyan-500/30 rounded-xl backdrop-blur-md px-5 py-4 shadow-[0_0_30px_rgba(34,211,238,0.15)] animate-in fade-in slide-in-from-bottom-4 duration-300">
+            <div className="flex items-center gap-2 text-cyan-400 font-mono text-[10px] tracking-[0.2em] uppercase">
+                <Smartphone className="w-4 h-4" />
+                <span>Device Permission</span>
+                {queued > 0 && <span className="text-cyan-500/60">+{queued}</span>}
+                <span className="ml-auto text-cyan-500/60">{secondsLeft}s</span>
+            </div>
+
+            <p className="mt-2 text-white text-base md:text-lg font-light break-words">{call.prompt}</p>
+
+            {args.length > 0 && (
+                <div className="mt-2 font-mono text-[10px] md:text-xs text-slate-400 space-y-0.5 break-all">
+                    <div className="text-cyan-500/70">{call.name}</div>
+                    {args.map(([key, value]) => (
+                        <div key={key}>
+                            <span className="text-slate-500">{key}:</span> {formatValue(value)}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <label className="mt-3 flex items-center gap-2 text-[10px] md:text-xs font-mono text-slate-400 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={remember}
+                    onChange={e => setRemember(e.target.checked)}
+                    className="accent-cyan-500"
+                />
+                Always allow {call.name.replace(/_/g, ' ')} on this device
+            </label>
+
+            <div className="mt-4 flex gap-3">
+                <button
+                    onClick={() => onRespond(true, remember)}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-cyan-500/20 border border-cyan-500/40 text-cyan-300 text-xs font-mono tracking-widest uppercase hover:bg-cyan-500/30 transition-colors"
+                >
+                    <Check className="w-4 h-4" /> Allow
+                </button>
+                <button
+                    onClick={() => onRespond(false, false)}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-slate-800/60 border border-slate-600/40 text-slate-300 text-xs font-mono tracking-widest uppercase hover:bg-slate-700/60 transition-colors"
+                >
+                    <X className="w-4 h-4" /> Deny
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ToolPermissionCard;
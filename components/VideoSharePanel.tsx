@@ -0,0 +1,56 @@
+import React, { useEffect, useRef } from 'react';
+import { Camera, MonitorUp, VideoOff } from 'lucide-react';
+import type { VideoShare } from '../hooks/useGatewayVoice';
+
+interface VideoSharePanelProps {
+    video: VideoShare;
+}
+
+const LABELS = { camera: 'Camera', screen: 'Screen' } as const;
+
+// Live mode: share the camera or screen with the assistant, with a preview while it sees it
+const VideoSharePanel: React.FC<VideoSharePanelProps> = ({ video }) => {
+    const previewRef = useRef<HTMLVideoElement>(null);
+
+    useEffect(() => {
+        if (previewRef.current) previewRef.current.srcObject = video.stream;
+    }, [video.stream]);
+
+    if (!video.source) {
+        return (
+            <div className="flex items-center gap-1 p-1 rounded-full bg-white/5 border border-white/10 backdrop-blur-md">
+                <button
+                    onClick={() => video.start('camera')}
+                    title="Show the assistant your camera"
+                    className="p-2 rounded-full text-slate-400 hover:text-cyan-300 hover:bg-white/10 transition-colors"
+                >
+                    <Camera className="w-4 h-4" />
+                </button>
+                <button
+                    onClick={() => video.start('screen')}
+                    title="Show the assistant your screen"
+                    className="p-2 rounded-full text-slate-400 hover:text-cyan-300 hover:bg-white/10 transition-colors"
+                >
+                    <MonitorUp className="w-4 h-4" />
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="w-40 sm:w-48 rounded-xl overflow-hidden border border-red-500/40 bg-black/60 backdrop-blur-md shadow-[0_0_20px_rgba(239,68,68,0.25)] animate-in fade-in duration-300">
+            <video ref={previewRef} autoPlay muted playsInline className="w-full aspect-video object-cover bg-black" />
+            <div className="flex items-center gap-2 px-3 py-1.5">
+                <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
+                <span className="flex-1 font-mono text-[10px] tracking-[0.2em] uppercase text-red-300">
+                    Sharing {LABELS[video.source]}
+                </span>
+                <button onClick={video.stop} title="Stop sharing" className="p-1 rounded-full text-slate-400 hover:text-white hover:bg-white/10 transition-colors">
+                    <VideoOff className="w-3.5 h-3.5" />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default VideoSharePanel;
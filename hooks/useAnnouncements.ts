@@ -0,0 +1,147 @@
+import { useRef, useState, useCallback, useEffect } from 'react';
+import { PROTOCOL_VERSION, AnnouncementMessage, encodeMessage, parseServerMessage } from '../shared/protocol';
+
+export interface Announcement {
+  id: string;
+  text: string;
+  title?: string;
+}
+
+export interface UseAnnouncementsReturn {
+  // The announcement on screen, if any; others wait their turn
+  announcement: Announcement | null;
+  dismiss: () => void;
+}
+
+// Let the earcon ring out before the announcement is read
+const EARCON_MS = 900;
+// How long an announcement stays up after it was read (or, when muted, in total per character)
+const LINGER_MS = 2500;
+const MUTED_MS_PER_CHAR = 60;
+const MUTED_MIN_MS = 5000;
+
+// Standby reconnect backoff: 1s, 2s, 4s, ... capped at 30s, until the gateway closes with its own code
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// Keeps a standby connection to server/gateway.ts (no conversation, no
+// microphone) so automations can reach the user at any time. Each announcement
+// is shown, then read out with the browser's speech synthesis unless
+// `speak` is off. Works alongside either voice mode; without a `gatewayUrl`
+// it stays idle.
+export const useAnnouncements = (gatewayUrl: string, authToken?: string, speak: boolean = true): UseAnnouncementsReturn => {
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+
+  const queueRef = useRef<Announcement[]>([]);
+  const currentRef = useRef<Announcement | null>(null);
+  const timerRef = useRef<number | null>(null);
+  const speakRef = useRef(speak);
+
+  useEffect(() => {
+    speakRef.current = speak;
+  }, [speak]);
+
+  const clearTimer = () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const showNext = () => {
+    clearTimer();
+    const next = queueRef.current.shift() ?? null;
+    currentRef.current = next;
+    setAnnouncement(next);
+    if (!next) return;
+
+    const finish = () => {
+      if (currentRef.current === next) timerRef.current = window.setTimeout(showNext, LINGER_MS);
+    };
+
+    timerRef.current = window.setTimeout(() => {
+      timerRef.current = null;
+      if (!speakRef.current || !window.speechSynthesis) {
+        timerRef.current = window.setTimeout(showNext, Math.max(MUTED_MIN_MS, next.text.length * MUTED_MS_PER_CHAR));
+        return;
+      }
+      const utterance = new SpeechSynthesisUtterance(next.title ? `${next.title}. ${next.text}` : next.text);
+      utterance.onend = finish;
+      utterance.onerror = finish;
+      window.speechSynthesis.speak(utterance);
+    }, EARCON_MS);
+  };
+
+  const enqueue = (msg: AnnouncementMessage) => {
+    queueRef.current.push({ id: msg.id, text: msg.text, title: msg.title });
+    if (!currentRef.current) showNext();
+  };
+
+  useEffect(() => {
+    if (!gatewayUrl) return;
+
+    let ws: WebSocket | null = null;
+    let attempt = 0;
+    let reconnectTimer: number | null = null;
+    let stopped = false;
+
+    const connect = () => {
+      ws = new WebSocket(gatewayUrl);
+      ws.onopen = () => ws?.send(encodeMessage({
+        type: 'hello',
+        version: PROTOCOL_VERSION,
+        authToken: authToken || undefined,
+        standby: true,
+      }));
+      ws.onmessage = (event) => {
+        const parsed = parseServerMessage(String(event.data));
+        if (!parsed.ok) {
+          console.error("Invalid gateway frame:", parsed.error.message);
+          return;
+        }
+        const msg = parsed.message;
+        if (msg.type === 'welcome') attempt = 0;
+        if (msg.type === 'announcement') enqueue(msg);
+      };
+      ws.onclose = (event) => {
+        ws = null;
+        if (stopped) return;
+        // Gateway-issued codes (4xxx) are final: a rejected token or version won't get better by retrying
+        if (event.code >= 4000) {
+          console.warn("Announcements unavailable:", event.code, event.reason);
+          return;
+        }
+        const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempt++, RECONNECT_MAX_MS);
+        reconnectTimer = window.setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (ws) {
+        ws.onclose = null;
+        ws.close(1000, 'Client stopped');
+      }
+    };
+  }, [gatewayUrl, authToken]);
+
+  // Stop reading on unmount
+  useEffect(() => {
+    return () => {
+      clearTimer();
+      if (currentRef.current) window.speechSynthesis?.cancel();
+    };
+  }, []);
+
+  const dismiss = useCallback(() => {
+    if (!currentRef.current) return;
+    currentRef.current = null;
+    window.speechSynthesis?.cancel();
+    showNext();
+  }, []);
+
+  return { announcement, dismiss };
+};
@@ -0,0 +1,108 @@
+import { useRef, useState, useCallback, useEffect } from 'react';
+import { arrayBufferToBase64 } from '../utils/audioUtils';
+import type { ImageMimeType, VideoSource } from '../shared/protocol';
+
+export interface CapturedFrame {
+  source: VideoSource;
+  mimeType: ImageMimeType;
+  data: string; // base64
+}
+
+export interface UseFrameCaptureReturn {
+  // What is being shared, if anything
+  source: VideoSource | null;
+  // The live camera/screen stream, for a preview
+  stream: MediaStream | null;
+  start: (source: VideoSource) => Promise<void>;
+  stop: () => void;
+}
+
+// Stills are scaled down to this width; the model doesn't need more to read a label
+const MAX_FRAME_WIDTH = 768;
+// JPEG qualities tried in turn until a frame fits `maxBytes`
+const JPEG_QUALITIES = [0.7, 0.5, 0.3];
+
+// Grabs JPEG stills from the camera or a shared screen `framesPerSecond` times
+// a second and hands them to `onFrame`. Frames larger than `maxBytes` are
+// re-encoded at lower quality, or skipped. Sharing also stops when the user
+// ends it from the browser's own controls.
+export const useFrameCapture = (
+  framesPerSecond: number,
+  maxBytes: number | undefined,
+  onFrame: (frame: CapturedFrame) => void
+): UseFrameCaptureReturn => {
+  const [source, setSource] = useState<VideoSource | null>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+
+  const streamRef = useRef<MediaStream | null>(null);
+  const timerRef = useRef<number | null>(null);
+  // Read on every tick so new limits apply without restarting the capture
+  const settingsRef = useRef({ framesPerSecond, maxBytes, onFrame });
+  settingsRef.current = { framesPerSecond, maxBytes, onFrame };
+
+  const stop = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setStream(null);
+    setSource(null);
+  }, []);
+
+  const start = useCallback(async (next: VideoSource) => {
+    stop();
+    const media = next === 'screen'
+      ? await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false })
+      : await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+    streamRef.current = media;
+    media.getVideoTracks()[0]?.addEventListener('ended', () => {
+      if (streamRef.current === media) stop();
+    });
+
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = media;
+    await video.play();
+    const canvas = document.createElement('canvas');
+
+    const encode = (quality: number) =>
+      new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+
+    const grab = async () => {
+      if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return;
+      const scale = Math.min(1, MAX_FRAME_WIDTH / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const { maxBytes: limit } = settingsRef.current;
+      for (const quality of JPEG_QUALITIES) {
+        const blob = await encode(quality);
+        if (!blob) return;
+        if (limit && blob.size > limit) continue;
+        if (streamRef.current !== media) return;
+        settingsRef.current.onFrame({ source: next, mimeType: 'image/jpeg', data: arrayBufferToBase64(await blob.arrayBuffer()) });
+        return;
+      }
+      console.warn("Frame too large to share even at low quality; skipped");
+    };
+
+    const tick = () => {
+      if (streamRef.current !== media) return;
+      grab().catch(err => console.error("Frame capture failed:", err));
+      timerRef.current = window.setTimeout(tick, 1000 / settingsRef.current.framesPerSecond);
+    };
+    tick();
+
+    setStream(media);
+    setSource(next);
+  }, [stop]);
+
+  // Release the camera on unmount
+  useEffect(() => stop, [stop]);
+
+  return { source, stream, start, stop };
+};
@@ -0,0 +1,561 @@
+import { useRef, useState, useCallback, useEffect } from 'react';
+import { calculateRMS, arrayBufferToBase64, base64ToArrayBuffer } from '../utils/audioUtils';
+import { CAPTURE_SAMPLE_RATE, createPcmCaptureNode } from '../utils/pcmCaptureWorklet';
+import { PLAYBACK_SAMPLE_RATE, PcmPlayer } from '../utils/PcmPlayer';
+import {
+  PROTOCOL_VERSION,
+  AudioFormats,
+  ClientMessage,
+  ConfirmRequestMessage,
+  ToolCallMessage,
+  VideoLimits,
+  VideoSource,
+  encodeMessage,
+  parseServerMessage,
+} from '../shared/protocol';
+import { appendMessage, type ChatMessage, type UseVoiceReturn } from './useRealtimeVoice';
+import { useFrameCapture } from './useFrameCapture';
+import { CLIENT_TOOL_HANDLERS, DeviceControls, allowTool, isToolAllowed } from '../utils/clientTools';
+
+// The capture worklet and player already speak the model's rates, so the gateway has nothing to transcode
+const AUDIO_FORMATS: AudioFormats = {
+  input: { encoding: 'pcm16', sampleRate: CAPTURE_SAMPLE_RATE },
+  output: { encoding: 'pcm16', sampleRate: PLAYBACK_SAMPLE_RATE },
+};
+
+// A sensitive automation waiting for the user's go-ahead
+export interface PendingConfirmation {
+  id: string;
+  tool: string;
+  args: Record<string, unknown>;
+  prompt: string;
+  expiresAt: number;
+}
+
+// A device action the assistant wants to take, waiting for the user's permission
+export interface PendingToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  prompt: string;
+  expiresAt: number;
+}
+
+// Live captions for both sides of the conversation
+export interface Caption {
+  text: string;
+  // False while the utterance is still being transcribed
+  final: boolean;
+}
+
+export interface LiveCaptions {
+  user: Caption | null;
+  assistant: Caption | null;
+}
+
+// Camera or screen sharing into the conversation
+export interface VideoShare {
+  source: VideoSource | null;
+  // For the preview thumbnail
+  stream: MediaStream | null;
+  start: (source: VideoSource) => void;
+  stop: () => void;
+}
+
+export interface UseGatewayVoiceReturn extends UseVoiceReturn {
+  captions: LiveCaptions;
+  confirmation: PendingConfirmation | null;
+  respondToConfirmation: (approved: boolean) => void;
+  // Oldest first; the UI asks about the first one
+  toolCalls: PendingToolCall[];
+  // `remember` allows this tool on this device from now on without asking
+  respondToToolCall: (allowed: boolean, remember?: boolean) => void;
+  video: VideoShare;
+}
+
+const VOLUME_STORAGE_KEY = 'nexora.volume';
+
+// Frames per second we share, unless the gateway allows fewer
+const VIDEO_FPS = Number(import.meta.env.VITE_VIDEO_FPS) || 1;
+
+// Reconnect backoff: 0.5s, 1s, 2s, ... capped at 10s, then give up
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 10000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+
+// Full-duplex "live mode": streams 16 kHz PCM to server/gateway.ts over a
+// WebSocket and plays the model's 24 kHz PCM replies as they arrive.
+// Dropped connections are retried with the session token so the gateway can
+// put us back into the same conversation. `authToken` is the signed client
+// token the gateway requires (see server/auth.ts).
+// Sensitive tools are held by the gateway until the user approves them, either
+// by answering the assistant out loud or through `respondToConfirmation`.
+// `sendText` works without the microphone: it opens a text-only connection if
+// none is running. With `speakReplies` off, replies arrive as captions only.
+// `profile` names the gateway profile (persona, voice, tools) new conversations
+// start with; changing it ends the current one. `video` shares camera or
+// screen stills within the limits the gateway announces in `welcome`.
+// Client tools (timers, links, clipboard, location, volume) run here through
+// CLIENT_TOOL_HANDLERS once the user allows them with `respondToToolCall`.
+export const useGatewayVoice = (
+  gatewayUrl: string,
+  authToken?: string,
+  speakReplies: boolean = true,
+  profile?: string
+): UseGatewayVoiceReturn => {
+  const [isListening, setIsListening] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [audioLevel, setAudioLevel] = useState(0);
+  const [transcript, setTranscript] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+  const [captions, setCaptions] = useState<LiveCaptions>({ user: null, assistant: null });
+  const [confirmation, setConfirmation] = useState<PendingConfirmation | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [videoLimits, setVideoLimits] = useState<VideoLimits | null>(null);
+  const [toolCalls, setToolCalls] = useState<PendingToolCall[]>([]);
+
+  const wsRef = useRef<WebSocket | null>(null);
+  const welcomedRef = useRef(false);
+  // Typed messages waiting for the handshake
+  const pendingTextRef = useRef<string[]>([]);
+
+  // Reconnection state
+  const sessionTokenRef = useRef<string | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<number | null>(null);
+
+  // Capture graph
+  const streamRef = useRef<MediaStream | null>(null);
+  const captureCtxRef = useRef<AudioContext | null>(null);
+  const captureNodeRef = useRef<AudioWorkletNode | null>(null);
+  const micAnalyserRef = useRef<AnalyserNode | null>(null);
+  const requestAnimFrameRef = useRef<number | null>(null);
+
+  // Playback
+  const playerRef = useRef<PcmPlayer | null>(null);
+  const speakRepliesRef = useRef(speakReplies);
+  // Set by the set_volume tool; outlives the player
+  const volumeRef = useRef(Number(localStorage.getItem(VOLUME_STORAGE_KEY) ?? 1));
+
+  useEffect(() => {
+    speakRepliesRef.current = speakReplies;
+    if (!speakReplies) playerRef.current?.flush();
+  }, [speakReplies]);
+
+  const send = (msg: ClientMessage) => {
+    const ws = wsRef.current;
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(encodeMessage(msg));
+    }
+  };
+
+  const device: DeviceControls = {
+    setVolume: level => {
+      volumeRef.current = level;
+      localStorage.setItem(VOLUME_STORAGE_KEY, String(level));
+      if (playerRef.current) playerRef.current.volume = level;
+    },
+  };
+
+  // Results for a connection that has since dropped are lost; the gateway times the call out
+  const runClientTool = (call: { id: string; name: string; args: Record<string, unknown> }) => {
+    CLIENT_TOOL_HANDLERS[call.name](call.args, device)
+      .then(result => send({ type: 'tool_result', id: call.id, result }))
+      .catch(err => {
+        console.error(`Client tool ${call.name} failed:`, err);
+        send({ type: 'tool_result', id: call.id, error: err?.message || String(err) });
+      });
+  };
+
+  // Frames taken before the handshake (or while reconnecting) are simply not sent
+  const capture = useFrameCapture(
+    Math.min(VIDEO_FPS, videoLimits?.maxFramesPerSecond ?? VIDEO_FPS),
+    videoLimits?.maxFrameBytes,
+    frame => {
+      if (welcomedRef.current) send({ type: 'video_frame', ...frame });
+    }
+  );
+  const sharingRef = useRef(capture.source);
+  sharingRef.current = capture.source;
+
+  const releaseMicrophone = () => {
+    if (captureNodeRef.current) {
+      captureNodeRef.current.port.onmessage = null;
+      captureNodeRef.current.disconnect();
+      captureNodeRef.current = null;
+    }
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+    if (captureCtxRef.current && captureCtxRef.current.state !== 'closed') {
+      captureCtxRef.current.close();
+    }
+    captureCtxRef.current = null;
+    micAnalyserRef.current = null;
+  };
+
+  const teardown = () => {
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    reconnectAttemptRef.current = 0;
+    sessionTokenRef.current = null;
+    pendingTextRef.current = [];
+    capture.stop();
+
+    if (requestAnimFrameRef.current) {
+      cancelAnimationFrame(requestAnimFrameRef.current);
+      requestAnimFrameRef.current = null;
+    }
+    releaseMicrophone();
+
+    if (playerRef.current) {
+      playerRef.current.close();
+      playerRef.current = null;
+    }
+
+    const ws = wsRef.current;
+    wsRef.current = null;
+    welcomedRef.current = false;
+    if (ws) {
+      ws.onclose = null;
+      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
+        ws.close(1000, 'Client stopped');
+      }
+    }
+
+    setIsListening(false);
+    setIsProcessing(false);
+    setIsPlaying(false);
+    setAudioLevel(0);
+    setConfirmation(null);
+    setToolCalls([]);
+    setCaptions({ user: null, assistant: null });
+  };
+
+  useEffect(() => {
+    return () => teardown();
+  }, [gatewayUrl, profile]);
+
+  const readLevel = (analyser: AnalyserNode | null | undefined): number => {
+    if (!analyser) return 0;
+    const dataArray = new Float32Array(analyser.frequencyBinCount);
+    analyser.getFloatTimeDomainData(dataArray);
+    return calculateRMS(dataArray);
+  };
+
+  // Drive the orb from whichever side is louder: the user or the assistant
+  const analyzeAudioLevel = () => {
+    const rms = Math.max(readLevel(micAnalyserRef.current), readLevel(playerRef.current?.analyser));
+    setAudioLevel(prev => prev * 0.8 + (rms * 8) * 0.2);
+    requestAnimFrameRef.current = requestAnimationFrame(analyzeAudioLevel);
+  };
+
+  const handleServerFrame = (raw: string) => {
+    const parsed = parseServerMessage(raw);
+    if (!parsed.ok) {
+      console.error("Invalid gateway frame:", parsed.error.message);
+      return;
+    }
+    const msg = parsed.message;
+
+    switch (msg.type) {
+      case 'welcome':
+        if (sessionTokenRef.current && !msg.resumed) {
+          console.warn("Previous session expired, started a new conversation");
+        }
+        sessionTokenRef.current = msg.sessionToken;
+        reconnectAttemptRef.current = 0;
+        welcomedRef.current = true;
+        setError(null);
+        setIsProcessing(false);
+        // A text-only connection has no microphone to listen with
+        setIsListening(!!streamRef.current);
+        pendingTextRef.current.splice(0).forEach(text => send({ type: 'text', text }));
+        setVideoLimits(msg.video ?? null);
+        if (!msg.video && sharingRef.current) {
+          capture.stop();
+          setError("Camera and screen sharing are turned off on the gateway.");
+        }
+        break;
+      case 'audio':
+        if (!speakRepliesRef.current) break;
+        playerRef.current?.enqueue(new Int16Array(base64ToArrayBuffer(msg.data)));
+        setIsPlaying(true);
+        break;
+      case 'text':
+        // System lines ("Assistant Ready", "Executing: ...") are gateway status, not part of the conversation
+        if (msg.payload.role === 'system') break;
+        setTranscript(msg.payload.text);
+        if (msg.payload.role === 'assistant') {
+          setMessages(prev => appendMessage(prev, { role: 'assistant', text: msg.payload.text }));
+        }
+        break;
+      case 'transcript':
+        setCaptions(prev => ({
+          ...prev,
+          // A new user utterance starts a new exchange, so the old reply caption goes
+          ...(msg.role === 'user' && prev.user?.final !== false ? { assistant: null } : {}),
+          [msg.role]: { text: msg.text, final: msg.final },
+        }));
+        if (msg.role === 'user') setTranscript(msg.text);
+        if (msg.final && msg.text.trim()) {
+          setMessages(prev => appendMessage(prev, { role: msg.role, text: msg.text.trim() }));
+        }
+        break;
+      case 'interrupt':
+        // User barged in: drop whatever the model was still saying
+        playerRef.current?.flush();
+        break;
+      case 'limit':
+        console.warn(`Gateway limit reached (${msg.limit}):`, msg.message);
+        setError(msg.retryAfterSeconds ? `${msg.message} (retry in ${msg.retryAfterSeconds}s)` : msg.message);
+        break;
+      case 'confirm_request':
+        setConfirmation(toPendingConfirmation(msg));
+        break;
+      case 'confirm_resolved':
+        setConfirmation(prev => (prev?.id === msg.id ? null : prev));
+        break;
+      case 'tool_call':
+        if (!CLIENT_TOOL_HANDLERS[msg.name]) {
+          send({ type: 'tool_result', id: msg.id, error: `This device does not support ${msg.name}` });
+        } else if (isToolAllowed(msg.name)) {
+          runClientTool(msg);
+        } else {
+          setToolCalls(prev => [...prev, toPendingToolCall(msg)]);
+        }
+        break;
+      case 'tool_cancel':
+        setToolCalls(prev => prev.filter(call => call.id !== msg.id));
+        break;
+      case 'error':
+        console.error(`Gateway error (${msg.code}):`, msg.message);
+        setError(msg.message);
+        if (msg.fatal) teardown();
+        break;
+    }
+  };
+
+  // Schedule another connection attempt unless we've run out of retries
+  const scheduleReconnect = () => {
+    const attempt = reconnectAttemptRef.current++;
+    if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+      setError("Lost connection to NexoraAI gateway.");
+      teardown();
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempt, RECONNECT_MAX_MS);
+    console.warn(`Reconnecting to gateway in ${delay}ms (attempt ${attempt + 1}/${MAX_RECONNECT_ATTEMPTS})`);
+    setIsProcessing(true);
+    reconnectTimerRef.current = window.setTimeout(() => {
+      reconnectTimerRef.current = null;
+      openSocket();
+    }, delay);
+  };
+
+  const openSocket = () => {
+    const ws = new WebSocket(gatewayUrl);
+    wsRef.current = ws;
+    welcomedRef.current = false;
+
+    ws.onopen = () => send({
+      type: 'hello',
+      version: PROTOCOL_VERSION,
+      resumeToken: sessionTokenRef.current ?? undefined,
+      authToken: authToken || undefined,
+      profile: profile || undefined,
+      audio: AUDIO_FORMATS,
+    });
+    ws.onmessage = (event) => handleServerFrame(String(event.data));
+    ws.onerror = () => console.error("Gateway socket error");
+    ws.onclose = (event) => {
+      console.warn("Gateway closed:", event.code, event.reason);
+      wsRef.current = null;
+      welcomedRef.current = false;
+
+      // Normal closes and gateway-issued codes (4xxx) are final; anything else is a dropped link
+      if (event.code === 1000 || event.code >= 4000) {
+        if (event.code !== 1000) {
+          setError(prev => prev || event.reason || `Gateway disconnected (${event.code}).`);
+        }
+        teardown();
+        return;
+      }
+      scheduleReconnect();
+    };
+  };
+
+  // Typed messages and shared frames don't need the microphone
+  const connectWithoutMicrophone = () => {
+    ensurePlayer()
+      .then(() => {
+        openSocket();
+        if (!requestAnimFrameRef.current) analyzeAudioLevel();
+      })
+      .catch(err => {
+        console.error("Error starting text session:", err);
+        setError("Could not start live session.");
+        teardown();
+      });
+  };
+
+  // Model audio plays through one queue for the whole connection
+  const ensurePlayer = async () => {
+    if (playerRef.current) return;
+    const player = new PcmPlayer();
+    await player.resume();
+    player.onIdle = () => setIsPlaying(false);
+    player.volume = volumeRef.current;
+    playerRef.current = player;
+  };
+
+  const startInteraction = useCallback(async () => {
+    if (streamRef.current) return;
+
+    setError(null);
+    setTranscript("");
+    // Adding the microphone to a text-only connection keeps its conversation
+    const connected = !!wsRef.current || !!reconnectTimerRef.current;
+    if (!connected) setIsProcessing(true);
+
+    try {
+      if (!gatewayUrl) throw new Error("Gateway URL is missing");
+
+      // 1. Microphone -> AudioWorklet (16 kHz PCM16 chunks)
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true }
+      });
+      streamRef.current = stream;
+
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      const captureCtx = new AudioContextClass();
+      captureCtxRef.current = captureCtx;
+
+      const source = captureCtx.createMediaStreamSource(stream);
+      const analyser = captureCtx.createAnalyser();
+      analyser.fftSize = 256;
+      source.connect(analyser);
+      micAnalyserRef.current = analyser;
+
+      const captureNode = await createPcmCaptureNode(captureCtx);
+      source.connect(captureNode);
+      captureNodeRef.current = captureNode;
+
+      captureNode.port.onmessage = (event: MessageEvent<ArrayBuffer>) => {
+        if (!welcomedRef.current) return;
+        send({ type: 'audio', data: arrayBufferToBase64(event.data) });
+      };
+
+      // 2. Playback queue for model audio
+      await ensurePlayer();
+
+      // 3. Gateway socket
+      if (!connected) openSocket();
+      else if (welcomedRef.current) setIsListening(true);
+
+      if (!requestAnimFrameRef.current) analyzeAudioLevel();
+    } catch (err: any) {
+      console.error("Error starting live session:", err);
+      setError(err?.name === 'NotAllowedError' ? "Microphone access denied." : "Could not start live session.");
+      // A text-only conversation carries on without the microphone
+      if (connected) releaseMicrophone();
+      else teardown();
+    }
+  }, [gatewayUrl, authToken, profile]);
+
+  const stopInteraction = useCallback(() => {
+    teardown();
+  }, []);
+
+  const sendText = useCallback((text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    setError(null);
+    setTranscript(trimmed);
+    setMessages(prev => appendMessage(prev, { role: 'user', text: trimmed }));
+
+    if (welcomedRef.current) {
+      send({ type: 'text', text: trimmed });
+      return;
+    }
+    pendingTextRef.current.push(trimmed);
+    // Connecting or reconnecting already; the handshake flushes the queue
+    if (wsRef.current || reconnectTimerRef.current) return;
+
+    setIsProcessing(true);
+    connectWithoutMicrophone();
+  }, [gatewayUrl, authToken, profile]);
+
+  // Sharing joins the running conversation, or starts one without the microphone
+  const startVideo = useCallback((source: VideoSource) => {
+    setError(null);
+    capture.start(source)
+      .then(() => {
+        if (!wsRef.current && !reconnectTimerRef.current) connectWithoutMicrophone();
+      })
+      .catch(err => {
+        console.error("Error starting video share:", err);
+        // Dismissing the browser's picker is not an error worth showing
+        if (err?.name !== 'NotAllowedError') setError(source === 'screen' ? "Could not share the screen." : "Could not open the camera.");
+      });
+  }, [gatewayUrl, authToken, profile, capture.start]);
+
+  // The gateway answers with confirm_resolved, which clears the card
+  const respondToConfirmation = useCallback((approved: boolean) => {
+    if (!confirmation) return;
+    send({ type: 'confirm_response', id: confirmation.id, approved });
+  }, [confirmation]);
+
+  // Answers the oldest waiting tool call
+  const respondToToolCall = useCallback((allowed: boolean, remember: boolean = false) => {
+    const call = toolCalls[0];
+    if (!call) return;
+    setToolCalls(prev => prev.filter(c => c.id !== call.id));
+    if (!allowed) {
+      send({ type: 'tool_result', id: call.id, denied: true });
+      return;
+    }
+    if (remember) allowTool(call.name);
+    runClientTool(call);
+  }, [toolCalls]);
+
+  return {
+    isListening,
+    isProcessing,
+    isPlaying,
+    audioLevel,
+    transcript,
+    startInteraction,
+    stopInteraction,
+    error,
+    captions,
+    confirmation,
+    respondToConfirmation,
+    toolCalls,
+    respondToToolCall,
+    messages,
+    sendText,
+    video: { source: capture.source, stream: capture.stream, start: startVideo, stop: capture.stop },
+  };
+};
+
+const toPendingConfirmation = (msg: ConfirmRequestMessage): PendingConfirmation => ({
+  id: msg.id,
+  tool: msg.tool,
+  args: msg.args,
+  prompt: msg.prompt,
+  expiresAt: Date.now() + msg.expiresInSeconds * 1000,
+});
+
+const toPendingToolCall = (msg: ToolCallMessage): PendingToolCall => ({
+  id: msg.id,
+  name: msg.name,
+  args: msg.args,
+  prompt: msg.prompt,
+  expiresAt: Date.now() + msg.expiresInSeconds * 1000,
+});
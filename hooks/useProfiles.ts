@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react';
+
+export interface ProfileInfo {
+  name: string;
+  // BCP-47 language the profile speaks; null when it uses the gateway's
+  language: string | null;
+}
+
+export interface GatewayProfiles {
+  // Used when the client doesn't pick one; null for the gateway's top-level settings
+  defaultProfile: string | null;
+  profiles: ProfileInfo[];
+}
+
+const EMPTY: GatewayProfiles = { defaultProfile: null, profiles: [] };
+
+// Reads the assistant profiles the gateway offers (GET /profiles). Without a
+// reachable gateway there are none and everything runs on defaults.
+export const useProfiles = (gatewayUrl: string): GatewayProfiles => {
+  const [result, setResult] = useState<GatewayProfiles>(EMPTY);
+
+  useEffect(() => {
+    if (!gatewayUrl) return;
+    const controller = new AbortController();
+    const url = new URL('/profiles', gatewayUrl.replace(/^ws/, 'http'));
+
+    fetch(url, { signal: controller.signal })
+      .then(res => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json();
+      })
+      .then(body => setResult({ defaultProfile: body.defaultProfile ?? null, profiles: body.profiles ?? [] }))
+      .catch(err => {
+        if (err?.name !== 'AbortError') console.warn("Could not load gateway profiles:", err);
+      });
+
+    return () => controller.abort();
+  }, [gatewayUrl]);
+
+  return result;
+};
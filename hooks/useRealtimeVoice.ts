@@ -1,7 +1,7 @@
 import { useRef, useState, useCallback, useEffect } from 'react';
 import { calculateRMS, base64ToBlob } from '../utils/audioUtils';
 
-interface UseVoiceReturn {
+export interface UseVoiceReturn {
   isListening: boolean;
   isProcessing: boolean;
   isPlaying: boolean;
@@ -10,16 +10,48 @@ interface UseVoiceReturn {
   startInteraction: () => Promise<void>;
   stopInteraction: () => void;
   error: string | null;
+  // Typed and spoken turns of the conversation, oldest first
+  messages: ChatMessage[];
+  // Send a typed message instead of speaking
+  sendText: (text: string) => void;
 }
 
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+// The chat log keeps the most recent turns only
+const MAX_MESSAGES = 50;
+
+export const appendMessage = (messages: ChatMessage[], message: ChatMessage): ChatMessage[] =>
+  [...messages, message].slice(-MAX_MESSAGES);
 
-export const useRealtimeVoice = (webhookUrl: string): UseVoiceReturn => {
+// Recognition and spoken replies when the selected profile names no language
+export const DEFAULT_LANGUAGE = 'fa-IR';
+
+// `speakReplies` off shows replies as text only (no audio playback).
+// `language` (BCP-47) follows the selected gateway profile.
+export const useRealtimeVoice = (
+  webhookUrl: string,
+  speakReplies: boolean = true,
+  language: string = DEFAULT_LANGUAGE
+): UseVoiceReturn => {
   const [isListening, setIsListening] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [audioLevel, setAudioLevel] = useState(0);
   const [transcript, setTranscript] = useState<string>("");
   const [error, setError] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+
+  const speakRepliesRef = useRef(speakReplies);
+  useEffect(() => {
+    speakRepliesRef.current = speakReplies;
+    if (!speakReplies) stopPlayback();
+  }, [speakReplies]);
+
+  const languageRef = useRef(language);
 
   // VAD Refs
   const lastSpeechTimeRef = useRef<number>(0);
@@ -50,7 +82,7 @@ export const useRealtimeVoice = (webhookUrl: string): UseVoiceReturn => {
       recognition.continuous = false; // Mobile friendly
       recognition.interimResults = true; // For ghost transcript
       recognition.maxAlternatives = 1;
-      recognition.lang = 'fa-IR'; // Default to Persian
+      recognition.lang = languageRef.current;
 
       recognition.onresult = async (event: any) => {
         // Clear watchdog if we validly hear something
@@ -115,6 +147,12 @@ export const useRealtimeVoice = (webhookUrl: string): UseVoiceReturn => {
     return () => cleanup();
   }, [webhookUrl]);
 
+  // Takes effect from the next recognition start
+  useEffect(() => {
+    languageRef.current = language;
+    if (recognitionRef.current) recognitionRef.current.lang = language;
+  }, [language]);
+
   const cleanup = () => {
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
@@ -128,9 +166,18 @@ export const useRealtimeVoice = (webhookUrl: string): UseVoiceReturn => {
     if (timerRef.current) {
       clearTimeout(timerRef.current);
     }
+    stopPlayback();
+  };
+
+  // Silence whatever reply is playing, recorded audio or speech synthesis
+  const stopPlayback = () => {
     if (audioPlayerRef.current) {
       audioPlayerRef.current.pause();
     }
+    if (window.speechSynthesis?.speaking) {
+      window.speechSynthesis.cancel();
+    }
+    setIsPlaying(false);
   };
 
   const analyzeAudioLevel = () => {
@@ -256,6 +303,7 @@ export const useRealtimeVoice = (webhookUrl: string): UseVoiceReturn => {
   }, []);
 
   const sendTextToWebhook = async (text: string) => {
+    setMessages(prev => appendMessage(prev, { role: 'user', text }));
     setIsProcessing(true);
     try {
       if (!webhookUrl) throw new Error("Webhook URL is missing");
@@ -290,10 +338,17 @@ export const useRealtimeVoice = (webhookUrl: string): UseVoiceReturn => {
         }
 
         const json = JSON.parse(textData);
+        // Optional text version of the reply, for the chat log
+        const replyText = typeof json.text === 'string' ? json.text : '';
+        if (replyText) setMessages(prev => appendMessage(prev, { role: 'assistant', text: replyText }));
 
         if (json.audio) {
           // Assume base64 audio
           responseBlob = base64ToBlob(json.audio);
+        } else if (replyText) {
+          // Text-only reply: read it out with the browser's voice
+          speakText(replyText);
+          return;
         } else if (json.message || json.error) {
           throw new Error(`Server: ${json.message || json.error}`);
         } else {
@@ -310,6 +365,10 @@ export const useRealtimeVoice = (webhookUrl: string): UseVoiceReturn => {
         responseBlob = new Blob([arrayBuffer], { type: 'audio/mpeg' });
       }
 
+      if (!speakRepliesRef.current) {
+        setIsProcessing(false);
+        return;
+      }
       playResponseAudio(responseBlob);
 
     } catch (err: any) {
@@ -319,6 +378,18 @@ export const useRealtimeVoice = (webhookUrl: string): UseVoiceReturn => {
     }
   };
 
+  const speakText = (text: string) => {
+    setIsProcessing(false);
+    if (!speakRepliesRef.current || !window.speechSynthesis) return;
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = languageRef.current;
+    utterance.onend = () => setIsPlaying(false);
+    utterance.onerror = () => setIsPlaying(false);
+    setIsPlaying(true);
+    window.speechSynthesis.speak(utterance);
+  };
+
   const playResponseAudio = (blob: Blob) => {
     const audioUrl = URL.createObjectURL(blob);
     const audio = new Audio(audioUrl);
@@ -355,6 +426,19 @@ export const useRealtimeVoice = (webhookUrl: string): UseVoiceReturn => {
     audio.play();
   };
 
+  // Typed input skips speech recognition and goes straight to the webhook
+  const sendText = useCallback((text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    // Abort rather than stop, so half-heard speech isn't sent as well
+    if (isListeningRef.current) recognitionRef.current?.abort();
+    stopInteraction();
+    stopPlayback();
+    setError(null);
+    setTranscript(trimmed);
+    sendTextToWebhook(trimmed);
+  }, [webhookUrl]);
+
   return {
     isListening,
     isProcessing,
@@ -363,6 +447,8 @@ export const useRealtimeVoice = (webhookUrl: string): UseVoiceReturn => {
     transcript,
     startInteraction,
     stopInteraction,
-    error
+    error,
+    messages,
+    sendText
   };
 };
\ No newline at end of file
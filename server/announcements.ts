@@ -0,0 +1,94 @@
+import { WebSocket } from 'ws';
+import { randomUUID } from 'crypto';
+import { HttpError } from './http';
+import { AnnouncementMessage, MAX_TEXT_LENGTH, encodeMessage } from '../shared/protocol';
+
+/**
+ * ANNOUNCEMENTS
+ * Automations push messages to people instead of waiting to be asked:
+ *
+ *   POST /api/announcements   Authorization: Bearer <ANNOUNCE_SECRET>
+ *   { "text": "The washing machine is done", "title"?: "...",
+ *     "clientId": "kitchen-tablet" | "group": "family" | "all": true }
+ *
+ * Browsers receive them on a standby connection (`hello` with `standby: true`),
+ * which stays open whether or not a conversation is running. Groups of client
+ * ids are named in the gateway config. Clients that aren't connected miss the
+ * announcement.
+ */
+
+export type AnnouncementTarget =
+  | { kind: 'client'; clientId: string }
+  | { kind: 'group'; group: string }
+  | { kind: 'all' };
+
+export interface AnnouncementRequest {
+  text: string;
+  title?: string;
+  target: AnnouncementTarget;
+}
+
+// Validate a POST body. Exactly one of clientId, group or all must say who hears it.
+export const parseAnnouncementRequest = (body: any): AnnouncementRequest => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) throw new HttpError(400, 'Body must be a JSON object');
+  if (typeof body.text !== 'string' || !body.text.trim()) throw new HttpError(400, '"text" is required');
+  if (body.text.length > MAX_TEXT_LENGTH) throw new HttpError(400, `"text" must be at most ${MAX_TEXT_LENGTH} characters`);
+  if (body.title !== undefined && typeof body.title !== 'string') throw new HttpError(400, '"title" must be a string');
+
+  const targets: AnnouncementTarget[] = [];
+  if (body.clientId !== undefined) {
+    if (typeof body.clientId !== 'string' || !body.clientId) throw new HttpError(400, '"clientId" must be a string');
+    targets.push({ kind: 'client', clientId: body.clientId });
+  }
+  if (body.group !== undefined) {
+    if (typeof body.group !== 'string' || !body.group) throw new HttpError(400, '"group" must be a string');
+    targets.push({ kind: 'group', group: body.group });
+  }
+  if (body.all === true) targets.push({ kind: 'all' });
+  if (targets.length !== 1) throw new HttpError(400, 'Give exactly one of "clientId", "group" or "all": true');
+
+  return { text: body.text.trim(), title: body.title || undefined, target: targets[0] };
+};
+
+export class AnnouncementHub {
+  // Standby sockets and the client identity each one authenticated as
+  private listeners = new Map<WebSocket, string>();
+
+  // `groups` is replaced on config reload
+  constructor(public groups: Record<string, string[]>) {}
+
+  listen(ws: WebSocket, clientId: string) {
+    this.listeners.set(ws, clientId);
+  }
+
+  remove(ws: WebSocket) {
+    this.listeners.delete(ws);
+  }
+
+  get size(): number {
+    return this.listeners.size;
+  }
+
+  // Send to every connected listener the target covers; returns the announcement and how many sockets got it
+  announce(request: AnnouncementRequest): { announcement: AnnouncementMessage; delivered: number } {
+    const { target } = request;
+    let clientIds: Set<string> | null = null;
+    if (target.kind === 'client') clientIds = new Set([target.clientId]);
+    if (target.kind === 'group') {
+      const members = this.groups[target.group];
+      if (!members) throw new HttpError(404, `Unknown group: ${target.group}`);
+      clientIds = new Set(members);
+    }
+
+    const announcement: AnnouncementMessage = { type: 'announcement', id: randomUUID(), text: request.text, title: request.title };
+    const frame = encodeMessage(announcement);
+    let delivered = 0;
+    this.listeners.forEach((clientId, ws) => {
+      if (clientIds && !clientIds.has(clientId)) return;
+      if (ws.readyState !== WebSocket.OPEN) return;
+      ws.send(frame);
+      delivered++;
+    });
+    return { announcement, delivered };
+  }
+}
@@ -0,0 +1,318 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { AudioFormat, AudioFormats, DEFAULT_AUDIO_FORMATS, InputAudioEncoding, OutputAudioEncoding } from '../shared/protocol';
+
+/**
+ * AUDIO TRANSCODING
+ * The model hears 16 kHz and speaks 24 kHz mono PCM16. Clients may instead
+ * send PCM at another rate or the WebM/Opus chunks of a MediaRecorder, and ask
+ * for PCM at another rate, Opus or MP3 back (see `audio` in `hello`). PCM is
+ * resampled in process; compressed audio goes through an ffmpeg child process:
+ * one per input stream, and one per assistant turn on the way out.
+ */
+
+export const MODEL_INPUT_RATE = DEFAULT_AUDIO_FORMATS.input.sampleRate;
+export const MODEL_OUTPUT_RATE = DEFAULT_AUDIO_FORMATS.output.sampleRate;
+
+export interface AudioSettings {
+  // ffmpeg binary used for Opus and MP3
+  ffmpegPath: string;
+  // Bitrate of compressed output
+  bitrateKbps: number;
+}
+
+export class AudioFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AudioFormatError';
+  }
+}
+
+const withRate = <E extends string>(format: AudioFormat<E>, defaultRate: number): AudioFormat<E> =>
+  format.encoding === 'pcm16' ? { encoding: format.encoding, sampleRate: format.sampleRate ?? defaultRate } : { encoding: format.encoding };
+
+// Fill in what the client left out and check the gateway can serve the rest
+export const negotiateAudio = (requested: Partial<AudioFormats> | undefined, ffmpegAvailable: boolean): AudioFormats => {
+  const formats: AudioFormats = {
+    input: withRate(requested?.input ?? DEFAULT_AUDIO_FORMATS.input, MODEL_INPUT_RATE),
+    output: withRate(requested?.output ?? DEFAULT_AUDIO_FORMATS.output, MODEL_OUTPUT_RATE),
+  };
+  if (!ffmpegAvailable && (formats.input.encoding !== 'pcm16' || formats.output.encoding !== 'pcm16')) {
+    throw new AudioFormatError('Compressed audio is not available on this gateway; use pcm16');
+  }
+  return formats;
+};
+
+// Whether `ffmpegPath` runs at all; compressed formats are refused without it
+export const probeFfmpeg = (ffmpegPath: string): Promise<boolean> =>
+  new Promise(resolve => {
+    const proc = spawn(ffmpegPath, ['-version'], { stdio: 'ignore' });
+    const timer = setTimeout(() => proc.kill('SIGKILL'), 5000);
+    proc.on('error', () => resolve(false));
+    proc.on('close', code => {
+      clearTimeout(timer);
+      resolve(code === 0);
+    });
+  });
+
+/**
+ * Streaming linear-interpolation resampler for mono PCM16. The last sample and
+ * the read position carry over between chunks, so chunk edges don't click.
+ */
+export class PcmResampler {
+  private readonly step: number;
+  // Read position in the next chunk, in samples; -1 is the previous chunk's last sample
+  private position = 0;
+  private last = 0;
+  private oddByte: Buffer | null = null;
+
+  constructor(fromRate: number, toRate: number) {
+    this.step = fromRate / toRate;
+  }
+
+  push(chunk: Buffer): Buffer {
+    if (this.oddByte) {
+      chunk = Buffer.concat([this.oddByte, chunk]);
+      this.oddByte = null;
+    }
+    if (chunk.length % 2) {
+      this.oddByte = chunk.subarray(chunk.length - 1);
+      chunk = chunk.subarray(0, chunk.length - 1);
+    }
+    const count = chunk.length / 2;
+    if (count === 0) return Buffer.alloc(0);
+
+    const sample = (i: number) => (i < 0 ? this.last : chunk.readInt16LE(i * 2));
+    const out = Buffer.alloc((Math.ceil((count - this.position) / this.step) + 1) * 2);
+    let written = 0;
+    let pos = this.position;
+    // Interpolate between the two samples around each read position
+    while (pos < count - 1) {
+      const i = Math.floor(pos);
+      const a = sample(i);
+      const value = a + (sample(i + 1) - a) * (pos - i);
+      out.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(value))), written);
+      written += 2;
+      pos += this.step;
+    }
+    this.position = pos - count;
+    this.last = sample(count - 1);
+    return out.subarray(0, written);
+  }
+
+  reset() {
+    this.position = 0;
+    this.last = 0;
+    this.oddByte = null;
+  }
+}
+
+// One ffmpeg run: bytes written in, transcoded bytes out through `onData`
+class FfmpegStream {
+  private proc: ChildProcessWithoutNullStreams;
+  private stderr = '';
+  private killed = false;
+  private done = false;
+
+  constructor(ffmpegPath: string, args: string[], onData: (chunk: Buffer) => void, onExit: (error?: string) => void) {
+    this.proc = spawn(ffmpegPath, ['-hide_banner', '-loglevel', 'error', ...args]);
+    const finish = (error?: string) => {
+      if (this.done) return;
+      this.done = true;
+      onExit(this.killed ? undefined : error);
+    };
+    this.proc.stdout.on('data', onData);
+    this.proc.stderr.on('data', (data: Buffer) => {
+      this.stderr = (this.stderr + data.toString()).slice(-500);
+    });
+    // EPIPE when ffmpeg gave up early; the exit reports why
+    this.proc.stdin.on('error', () => {});
+    this.proc.on('error', err => finish(`Could not run ffmpeg: ${err.message}`));
+    this.proc.on('close', code => finish(code === 0 ? undefined : this.stderr.trim() || `ffmpeg exited with code ${code}`));
+  }
+
+  write(chunk: Buffer) {
+    if (!this.done && this.proc.stdin.writable) this.proc.stdin.write(chunk);
+  }
+
+  // No more input: ffmpeg flushes what it holds and exits
+  end() {
+    if (!this.done) this.proc.stdin.end();
+  }
+
+  kill() {
+    this.killed = true;
+    if (!this.done) this.proc.kill('SIGKILL');
+  }
+}
+
+// ffmpeg writes pipes in arbitrary sizes; PCM16 must not be split mid-sample
+const alignPcm = (onPcm: (pcm: Buffer) => void) => {
+  let carry: Buffer | null = null;
+  return (chunk: Buffer) => {
+    const data = carry ? Buffer.concat([carry, chunk]) : chunk;
+    const even = data.length - (data.length % 2);
+    carry = even < data.length ? data.subarray(even) : null;
+    if (even > 0) onPcm(data.subarray(0, even));
+  };
+};
+
+const PCM_OUT = ['-f', 's16le', '-ac', '1'];
+
+export interface InputDecoder {
+  // Client audio in the negotiated input format
+  push(data: Buffer): void;
+  close(): void;
+}
+
+/**
+ * Turns client audio into 16 kHz PCM16 for the model. A WebM/Opus stream is
+ * decoded by one long-running ffmpeg; if it fails, `onError` is told and the
+ * next chunk starts a new decoder, which needs a fresh stream (header
+ * included) from the client.
+ */
+export const createInputDecoder = (
+  format: AudioFormat<InputAudioEncoding>,
+  settings: AudioSettings,
+  onPcm: (pcm: Buffer) => void,
+  onError: (message: string) => void
+): InputDecoder => {
+  if (format.encoding === 'pcm16') {
+    if (format.sampleRate === MODEL_INPUT_RATE) return { push: onPcm, close: () => {} };
+    const resampler = new PcmResampler(format.sampleRate, MODEL_INPUT_RATE);
+    return {
+      push: data => {
+        const pcm = resampler.push(data);
+        if (pcm.length) onPcm(pcm);
+      },
+      close: () => {},
+    };
+  }
+
+  let stream: FfmpegStream | null = null;
+  const args = [
+    // Start decoding on the first cluster instead of buffering to probe the input
+    '-probesize', '4096', '-analyzeduration', '0', '-fflags', 'nobuffer',
+    '-f', 'matroska', '-i', 'pipe:0',
+    ...PCM_OUT, '-ar', String(MODEL_INPUT_RATE), '-flush_packets', '1', 'pipe:1',
+  ];
+  return {
+    push: data => {
+      if (!stream) {
+        const started: FfmpegStream = new FfmpegStream(settings.ffmpegPath, args, alignPcm(onPcm), error => {
+          if (stream === started) stream = null;
+          if (error) onError(`Could not decode audio: ${error}`);
+        });
+        stream = started;
+      }
+      stream.write(data);
+    },
+    close: () => {
+      stream?.kill();
+      stream = null;
+    },
+  };
+};
+
+export interface OutputEncoder {
+  // 24 kHz PCM16 from the model
+  push(pcm: Buffer): void;
+  // The model finished its turn: flush what is still being encoded
+  endTurn(): void;
+  // The user barged in: drop whatever hasn't been sent
+  interrupt(): void;
+  close(): void;
+}
+
+const encoderArgs = (encoding: OutputAudioEncoding, settings: AudioSettings): string[] => {
+  const input = ['-f', 's16le', '-ar', String(MODEL_OUTPUT_RATE), '-ac', '1', '-i', 'pipe:0'];
+  const bitrate = ['-b:a', `${settings.bitrateKbps}k`];
+  const output =
+    encoding === 'mp3'
+      ? ['-c:a', 'libmp3lame', ...bitrate, '-f', 'mp3']
+      // Live WebM: no seeking back to write sizes, short clusters so playback can start early
+      : ['-c:a', 'libopus', ...bitrate, '-application', 'voip', '-f', 'webm', '-live', '1', '-cluster_time_limit', '200'];
+  return [...input, ...output, '-flush_packets', '1', 'pipe:1'];
+};
+
+/**
+ * Turns model audio into the client's output format. Compressed output is one
+ * ffmpeg run per assistant turn; its first chunk is flagged `newStream`. A
+ * finished turn may still be flushing when the next starts, so later streams
+ * hold their output until the earlier ones are done.
+ */
+export const createOutputEncoder = (
+  format: AudioFormat<OutputAudioEncoding>,
+  settings: AudioSettings,
+  onChunk: (data: Buffer, newStream: boolean) => void,
+  onError: (message: string) => void
+): OutputEncoder => {
+  if (format.encoding === 'pcm16') {
+    const resampler = format.sampleRate === MODEL_OUTPUT_RATE ? null : new PcmResampler(MODEL_OUTPUT_RATE, format.sampleRate);
+    return {
+      push: pcm => {
+        const data = resampler ? resampler.push(pcm) : pcm;
+        if (data.length) onChunk(data, false);
+      },
+      endTurn: () => {},
+      interrupt: () => resampler?.reset(),
+      close: () => {},
+    };
+  }
+
+  interface TurnStream {
+    ffmpeg: FfmpegStream;
+    held: Buffer[];
+    started: boolean;
+  }
+  // Oldest first; only the head may emit
+  let streams: TurnStream[] = [];
+  let current: TurnStream | null = null;
+
+  const emit = (turn: TurnStream, chunk: Buffer) => {
+    onChunk(chunk, !turn.started);
+    turn.started = true;
+  };
+  const finished = (turn: TurnStream) => {
+    streams = streams.filter(s => s !== turn);
+    if (current === turn) current = null;
+    const head = streams[0];
+    if (head) head.held.splice(0).forEach(chunk => emit(head, chunk));
+  };
+
+  return {
+    push: pcm => {
+      if (!current) {
+        const turn: TurnStream = {
+          held: [],
+          started: false,
+          ffmpeg: new FfmpegStream(
+            settings.ffmpegPath,
+            encoderArgs(format.encoding, settings),
+            chunk => (streams[0] === turn ? emit(turn, chunk) : turn.held.push(chunk)),
+            error => {
+              finished(turn);
+              if (error) onError(`Could not encode audio: ${error}`);
+            }
+          ),
+        };
+        streams.push(turn);
+        current = turn;
+      }
+      current.ffmpeg.write(pcm);
+    },
+    endTurn: () => {
+      current?.ffmpeg.end();
+      current = null;
+    },
+    interrupt: () => {
+      streams.forEach(s => s.ffmpeg.kill());
+      streams = [];
+      current = null;
+    },
+    close: () => {
+      streams.forEach(s => s.ffmpeg.kill());
+      streams = [];
+      current = null;
+    },
+  };
+};
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditEntry, AuditLog, MAX_AUDIT_ENTRIES } from './audit';
+
+const entry = (n: number, clientId = 'kiosk'): Omit<AuditEntry, 'ts'> => ({
+  clientId,
+  sessionId: 's1',
+  tool: `tool_${n}`,
+  args: { n },
+  reason: 'not_allowed',
+  message: 'Not allowed',
+});
+
+describe('audit log', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'nexora-audit-'));
+    file = join(dir, 'audit.jsonl');
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('returns recorded entries newest first and appends them to the file', async () => {
+    const audit = new AuditLog(file);
+    audit.record(entry(1));
+    audit.record(entry(2, 'phone'));
+    audit.record(entry(3));
+
+    expect((await audit.recent(10)).map(e => e.tool)).toEqual(['tool_3', 'tool_2', 'tool_1']);
+    expect((await audit.recent(1)).map(e => e.tool)).toEqual(['tool_3']);
+    expect((await audit.recent(10, 'kiosk')).map(e => e.tool)).toEqual(['tool_3', 'tool_1']);
+    await expect.poll(() => readFileSync(file, 'utf-8').trim().split('\n').length).toBe(3);
+  });
+
+  it('picks up the end of an existing file after a restart', async () => {
+    const lines = Array.from({ length: MAX_AUDIT_ENTRIES + 5 }, (_, i) => JSON.stringify({ ts: '', ...entry(i) }));
+    writeFileSync(file, `${lines.join('\n')}\n{"cut short`);
+
+    const audit = new AuditLog(file);
+    audit.record(entry(-1));
+    const recent = await audit.recent(MAX_AUDIT_ENTRIES);
+    expect(recent).toHaveLength(MAX_AUDIT_ENTRIES);
+    expect(recent.slice(0, 2).map(e => e.tool)).toEqual(['tool_-1', `tool_${MAX_AUDIT_ENTRIES + 4}`]);
+    expect(recent.at(-1)?.tool).toBe('tool_6');
+  });
+});
@@ -0,0 +1,100 @@
+import { appendFile, mkdir, open } from 'fs/promises';
+import { existsSync } from 'fs';
+import { dirname } from 'path';
+import { logger } from './logger';
+
+/**
+ * AUDIT LOG
+ * Tool calls the gateway refused (bad arguments, not allowed for the client),
+ * appended as JSONL. A burst of these from one client usually means someone
+ * is trying to talk the model into something: a prompt injection in a web
+ * page, an email or a spoken message.
+ */
+
+export interface AuditEntry {
+  ts: string;
+  clientId: string;
+  sessionId: string;
+  tool: string;
+  // The arguments exactly as the model sent them
+  args: unknown;
+  reason: string;
+  message: string;
+  problems?: string[];
+}
+
+// Most entries `recent` returns; also how many are kept in memory
+export const MAX_AUDIT_ENTRIES = 1000;
+// How much of the end of the file is read at startup to fill the window
+const TAIL_BYTES = 4 * 1024 * 1024;
+
+export class AuditLog {
+  // Appends are chained so lines land in order, after the startup read
+  private writes: Promise<unknown>;
+  private loaded: Promise<void>;
+  // The last MAX_AUDIT_ENTRIES entries, oldest first
+  private entries: AuditEntry[] = [];
+
+  constructor(private file: string) {
+    this.loaded = mkdir(dirname(file), { recursive: true })
+      .then(() => this.loadTail())
+      .catch(err => logger.error('Failed to read audit log', { err }));
+    this.writes = this.loaded;
+  }
+
+  record(entry: Omit<AuditEntry, 'ts'>) {
+    const stored: AuditEntry = { ts: new Date().toISOString(), ...entry };
+    logger.warn('Audit: tool call rejected', { ...stored });
+    this.remember([stored]);
+    const line = JSON.stringify(stored) + '\n';
+    this.writes = this.writes
+      .then(() => appendFile(this.file, line))
+      .catch(err => logger.error('Failed to write audit log', { err }));
+  }
+
+  // Newest first, optionally for one client (among the last MAX_AUDIT_ENTRIES)
+  async recent(limit: number, clientId?: string): Promise<AuditEntry[]> {
+    await this.loaded;
+    const entries = clientId ? this.entries.filter(entry => entry.clientId === clientId) : this.entries;
+    return entries.slice(-Math.min(limit, MAX_AUDIT_ENTRIES)).reverse();
+  }
+
+  private remember(entries: AuditEntry[]) {
+    this.entries.push(...entries);
+    if (this.entries.length > MAX_AUDIT_ENTRIES) this.entries.splice(0, this.entries.length - MAX_AUDIT_ENTRIES);
+  }
+
+  // Entries recorded before the restart go in front of any recorded since
+  private async loadTail() {
+    if (!existsSync(this.file)) return;
+    const handle = await open(this.file, 'r');
+    let text: string;
+    let partial: boolean;
+    try {
+      const { size } = await handle.stat();
+      const length = Math.min(size, TAIL_BYTES);
+      const buffer = Buffer.alloc(length);
+      await handle.read(buffer, 0, length, size - length);
+      text = buffer.toString('utf-8');
+      partial = length < size;
+    } finally {
+      await handle.close();
+    }
+
+    const lines = text.split('\n');
+    // Read from the middle of the file, the first line is cut off
+    if (partial) lines.shift();
+    const loaded: AuditEntry[] = [];
+    for (const line of lines) {
+      if (!line) continue;
+      try {
+        loaded.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // A line cut short by a crash
+      }
+    }
+    const since = this.entries;
+    this.entries = [];
+    this.remember([...loaded.slice(-MAX_AUDIT_ENTRIES), ...since]);
+  }
+}
@@ -0,0 +1,69 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * CLIENT AUTHENTICATION
+ * Clients present a compact JWT (HS256) signed with one of the gateway's shared
+ * secrets. Several secrets can be configured at once so they can be rotated
+ * without cutting off clients holding tokens signed with the previous one.
+ */
+
+export interface ClientIdentity {
+  // Stable client identifier (the token's `sub` claim)
+  id: string;
+  // Expiry as a unix timestamp in seconds
+  expiresAt: number;
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// Tolerated clock drift between the token issuer and the gateway
+const CLOCK_SKEW_SECONDS = 30;
+
+const base64url = (input: Buffer | string): string => Buffer.from(input).toString('base64url');
+
+const sign = (data: string, secret: string): Buffer => createHmac('sha256', secret).update(data).digest();
+
+export const signToken = (subject: string, secret: string, ttlSeconds: number): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ sub: subject, iat: now, exp: now + ttlSeconds }));
+  return `${header}.${payload}.${base64url(sign(`${header}.${payload}`, secret))}`;
+};
+
+export const verifyToken = (token: string, secrets: string[]): ClientIdentity => {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new AuthError('Malformed token');
+  const [header, payload, signature] = parts;
+
+  let claims: any;
+  try {
+    const decodedHeader = JSON.parse(Buffer.from(header, 'base64url').toString('utf-8'));
+    if (decodedHeader.alg !== 'HS256') throw new AuthError('Unsupported token algorithm');
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+  } catch (err) {
+    if (err instanceof AuthError) throw err;
+    throw new AuthError('Malformed token');
+  }
+
+  const given = Buffer.from(signature, 'base64url');
+  const valid = secrets.some(secret => {
+    const expected = sign(`${header}.${payload}`, secret);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  });
+  if (!valid) throw new AuthError('Invalid token signature');
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number') throw new AuthError('Token has no expiry');
+  if (claims.exp + CLOCK_SKEW_SECONDS < now) throw new AuthError('Token expired');
+  if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new AuthError('Token not yet valid');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) throw new AuthError('Token has no subject');
+
+  return { id: claims.sub, expiresAt: claims.exp };
+};
@@ -0,0 +1,75 @@
+import { randomUUID } from 'crypto';
+import { ToolConfig } from './tools';
+import { ModelToolCall } from './providers';
+import { renderPrompt } from './confirmations';
+
+/**
+ * CLIENT TOOLS
+ * Tools marked `client` act on the user's own device: a local timer, opening a
+ * link, the clipboard, the current location, the playback volume. The gateway
+ * forwards the call to the attached browser as a `tool_call` frame; the
+ * browser asks the user's permission, runs its handler and answers with
+ * `tool_result`. The call waits here until then, or until it times out.
+ */
+
+export const DEFAULT_CLIENT_TOOL_TIMEOUT_MS = 30000;
+
+export interface PendingClientCall {
+  id: string;
+  call: ModelToolCall;
+  tool: ToolConfig;
+  // Permission question shown in the browser, e.g. "Open https://example.com?"
+  prompt: string;
+  startedAt: number;
+  expiresAt: number;
+  timer: NodeJS.Timeout;
+}
+
+export class ClientToolCalls {
+  private pending = new Map<string, PendingClientCall>();
+
+  constructor(private onTimeout: (pending: PendingClientCall) => void) {}
+
+  create(call: ModelToolCall, tool: ToolConfig): PendingClientCall {
+    const id = randomUUID().slice(0, 8);
+    const timeoutMs = tool.timeoutMs ?? DEFAULT_CLIENT_TOOL_TIMEOUT_MS;
+    const startedAt = Date.now();
+    const pending: PendingClientCall = {
+      id,
+      call,
+      tool,
+      prompt: renderPrompt(tool, call.args),
+      startedAt,
+      expiresAt: startedAt + timeoutMs,
+      timer: setTimeout(() => {
+        if (this.pending.delete(id)) this.onTimeout(pending);
+      }, timeoutMs),
+    };
+    this.pending.set(id, pending);
+    return pending;
+  }
+
+  // Remove and return a pending call; undefined if unknown or already timed out
+  take(id: string): PendingClientCall | undefined {
+    const pending = this.pending.get(id);
+    if (!pending) return undefined;
+    clearTimeout(pending.timer);
+    this.pending.delete(id);
+    return pending;
+  }
+
+  // The same, looked up by the model's call id (for cancellations)
+  takeByCallId(callId: string): PendingClientCall | undefined {
+    const pending = Array.from(this.pending.values()).find(p => p.call.id === callId);
+    return pending && this.take(pending.id);
+  }
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  clear() {
+    this.pending.forEach(p => clearTimeout(p.timer));
+    this.pending.clear();
+  }
+}
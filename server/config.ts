@@ -0,0 +1,483 @@
+import { existsSync, readFileSync, watchFile, unwatchFile } from 'fs';
+import { dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { ToolConfig, ToolRegistry } from './tools';
+import { DEFAULT_LIMITS, Limits } from './usage';
+import { AudioSettings } from './audio';
+import { ToolAccessRules, isValidRule } from './tool-policy';
+import { CONFIRM_ACTION_TOOL } from './confirmations';
+import { MEMORY_TOOLS } from './memory';
+import { MAX_PROFILE_NAME_LENGTH } from '../shared/protocol';
+
+/**
+ * GATEWAY CONFIG
+ * Non-secret settings live in a JSON file (server/gateway.config.json by
+ * default, GATEWAY_CONFIG to point elsewhere). Every setting can be overridden
+ * by an environment variable, which wins over the file. Secrets (API_KEY,
+ * GATEWAY_AUTH_SECRETS, GATEWAY_ADMIN_TOKENS, N8N_SIGNING_SECRET...) are only
+ * ever read from the environment.
+ *
+ * The file and the tool file it points to are watched: on change the config is
+ * reloaded and validated, and new sessions use it. Running sessions keep the
+ * settings they started with.
+ */
+
+export interface ModelSettings {
+  // 'gemini' for the real Live API, 'mock' to replay a script offline
+  provider: string;
+  name: string;
+  // Prebuilt voice, e.g. "Puck" or "Kore" (provider default when unset)
+  voice?: string;
+  // BCP-47 language for speech in and out, e.g. "en-US"
+  language?: string;
+  // Script for the mock provider
+  mockScript?: string;
+}
+
+// A persona a client can pick at connect time (kitchen tablet, office desktop...).
+// Unset fields fall back to the top-level settings.
+export interface ProfileSettings {
+  systemInstruction?: string;
+  voice?: string;
+  language?: string;
+  // Names of the tools this profile may use; all tools when unset
+  tools?: string[];
+  // What the assistant says first when a conversation starts
+  greeting?: string;
+}
+
+export interface GatewayConfig {
+  port: number;
+  model: ModelSettings;
+  systemInstruction: string;
+  tools: ToolConfig[];
+  // Tool file the tools were loaded from (watched for changes); null when inline
+  toolsFile: string | null;
+  // Named webhook targets, usable as ${NAME} in tool URLs and headers
+  webhooks: Record<string, string>;
+  limits: Limits;
+  session: {
+    // How long a conversation survives a dropped client connection
+    graceMs: number;
+    // How long a sensitive automation waits for the user's yes/no
+    confirmationTimeoutMs: number;
+    // Shared deadline for the tool calls the model makes in one go; slower calls are aborted
+    toolDeadlineMs: number;
+  };
+  n8n: {
+    // Consecutive failures that open a webhook origin's circuit
+    failureThreshold: number;
+    cooldownMs: number;
+  };
+  recording: {
+    // Record audio and events of new sessions (see server/recorder.ts)
+    enabled: boolean;
+  };
+  jobs: {
+    // How long an async automation may run before it is reported as failed
+    timeoutMs: number;
+    // Base URL n8n uses for job callbacks; http://localhost:<port> when unset
+    callbackBaseUrl?: string;
+  };
+  announcements: {
+    // Named sets of client ids that can be announced to together
+    groups: Record<string, string[]>;
+  };
+  memory: {
+    // Offer remember_fact / forget_fact and add stored facts to the system instruction
+    enabled: boolean;
+    maxFacts: number;
+    // Characters of facts added to the system instruction (newest first)
+    promptBudgetChars: number;
+  };
+  // Transcoding of compressed client audio (server/audio.ts)
+  audio: AudioSettings;
+  video: {
+    // Accept camera/screen frames and pass them to the model
+    enabled: boolean;
+    maxFramesPerSecond: number;
+    // Decoded size of one frame
+    maxFrameBytes: number;
+  };
+  // Allow and deny lists of tool calls, by client id or "*" for everyone (see server/tool-policy.ts)
+  toolAccess: Record<string, ToolAccessRules>;
+  profiles: Record<string, ProfileSettings>;
+  // Profile used when the client doesn't name one; none means the top-level settings
+  defaultProfile?: string;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export const DEFAULT_CONFIG_PATH = fileURLToPath(new URL('./gateway.config.json', import.meta.url));
+
+const DEFAULTS = {
+  port: 8080,
+  model: {
+    provider: 'gemini',
+    name: 'gemini-2.5-flash-native-audio-preview-09-2025',
+  },
+  systemInstruction:
+    'You are a helpful home assistant. If the user asks to do something outside of conversation (like lights, calendar, data), use the most specific tool available.',
+  tools: './tools.json',
+  session: { graceMs: 60000, confirmationTimeoutMs: 30000, toolDeadlineMs: 15000 },
+  n8n: { failureThreshold: 5, cooldownMs: 30000 },
+  recording: { enabled: false },
+  jobs: { timeoutMs: 600000 },
+  announcements: { groups: {} },
+  memory: { enabled: true, maxFacts: 200, promptBudgetChars: 4000 },
+  audio: { ffmpegPath: 'ffmpeg', bitrateKbps: 32 },
+  video: { enabled: true, maxFramesPerSecond: 1, maxFrameBytes: 262144 },
+  toolAccess: {},
+  profiles: {},
+};
+
+// Environment variable -> config field. Paths given in the environment are relative to the working directory.
+const ENV_OVERRIDES: [string, string[], 'number' | 'string' | 'path' | 'boolean'][] = [
+  ['PORT', ['port'], 'number'],
+  ['MODEL_PROVIDER', ['model', 'provider'], 'string'],
+  ['MODEL', ['model', 'name'], 'string'],
+  ['VOICE', ['model', 'voice'], 'string'],
+  ['LANGUAGE', ['model', 'language'], 'string'],
+  ['MOCK_SCRIPT', ['model', 'mockScript'], 'path'],
+  ['SYSTEM_INSTRUCTION', ['systemInstruction'], 'string'],
+  ['TOOLS_CONFIG', ['tools'], 'path'],
+  ['LIMIT_CONCURRENT_SESSIONS', ['limits', 'maxConcurrentSessions'], 'number'],
+  ['LIMIT_SESSION_SECONDS', ['limits', 'maxSessionSeconds'], 'number'],
+  ['LIMIT_AUDIO_SECONDS_PER_DAY', ['limits', 'audioSecondsPerDay'], 'number'],
+  ['LIMIT_TOOL_CALLS_PER_MINUTE', ['limits', 'toolCallsPerMinute'], 'number'],
+  ['SESSION_GRACE_MS', ['session', 'graceMs'], 'number'],
+  ['CONFIRMATION_TIMEOUT_MS', ['session', 'confirmationTimeoutMs'], 'number'],
+  ['TOOL_DEADLINE_MS', ['session', 'toolDeadlineMs'], 'number'],
+  ['N8N_FAILURE_THRESHOLD', ['n8n', 'failureThreshold'], 'number'],
+  ['N8N_COOLDOWN_MS', ['n8n', 'cooldownMs'], 'number'],
+  ['RECORD_SESSIONS', ['recording', 'enabled'], 'boolean'],
+  ['JOB_TIMEOUT_MS', ['jobs', 'timeoutMs'], 'number'],
+  ['GATEWAY_PUBLIC_URL', ['jobs', 'callbackBaseUrl'], 'string'],
+  ['MEMORY_ENABLED', ['memory', 'enabled'], 'boolean'],
+  ['FFMPEG_PATH', ['audio', 'ffmpegPath'], 'string'],
+  ['AUDIO_BITRATE_KBPS', ['audio', 'bitrateKbps'], 'number'],
+  ['VIDEO_ENABLED', ['video', 'enabled'], 'boolean'],
+  ['VIDEO_MAX_FPS', ['video', 'maxFramesPerSecond'], 'number'],
+  ['VIDEO_MAX_FRAME_BYTES', ['video', 'maxFrameBytes'], 'number'],
+  ['DEFAULT_PROFILE', ['defaultProfile'], 'string'],
+];
+
+const applyEnv = (raw: Record<string, any>, env: NodeJS.ProcessEnv) => {
+  for (const [name, path, kind] of ENV_OVERRIDES) {
+    const value = env[name];
+    if (value === undefined || value === '') continue;
+    let target = raw;
+    for (const key of path.slice(0, -1)) {
+      if (!target[key] || typeof target[key] !== 'object') target[key] = {};
+      target = target[key];
+    }
+    const parsed =
+      kind === 'number' ? Number(value) :
+      kind === 'boolean' ? value === 'true' :
+      kind === 'path' ? resolve(value) :
+      value;
+    if (kind === 'number' && !Number.isFinite(parsed)) {
+      throw new ConfigError(`${name}: expected a number, got "${value}"`);
+    }
+    target[path[path.length - 1]] = parsed;
+  }
+  // Webhook targets are overridden by a variable of the same name
+  for (const key of Object.keys(raw.webhooks ?? {})) {
+    if (env[key]) raw.webhooks[key] = env[key];
+  }
+};
+
+const positiveInteger = (value: unknown, field: string): number => {
+  if (!Number.isInteger(value) || (value as number) <= 0) {
+    throw new ConfigError(`"${field}" must be a positive integer`);
+  }
+  return value as number;
+};
+
+const boolean = (value: unknown, field: string): boolean => {
+  if (typeof value !== 'boolean') throw new ConfigError(`"${field}" must be true or false`);
+  return value;
+};
+
+const optionalString = (value: unknown, field: string): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw new ConfigError(`"${field}" must be a string`);
+  return value;
+};
+
+const requiredString = (value: unknown, field: string): string => {
+  const result = optionalString(value, field);
+  if (!result) throw new ConfigError(`"${field}" is required`);
+  return result;
+};
+
+// Read, merge env overrides, and validate. Throws ConfigError on anything invalid.
+export const loadConfig = (path: string, env: NodeJS.ProcessEnv = process.env): GatewayConfig => {
+  let file: Record<string, any> = {};
+  if (existsSync(path)) {
+    try {
+      file = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (err: any) {
+      throw new ConfigError(`${path}: ${err.message}`);
+    }
+    if (!file || typeof file !== 'object' || Array.isArray(file)) {
+      throw new ConfigError(`${path}: expected a JSON object`);
+    }
+  }
+
+  const raw: Record<string, any> = {
+    ...DEFAULTS,
+    ...file,
+    model: { ...DEFAULTS.model, ...file.model },
+    limits: { ...DEFAULT_LIMITS, ...file.limits },
+    session: { ...DEFAULTS.session, ...file.session },
+    n8n: { ...DEFAULTS.n8n, ...file.n8n },
+    recording: { ...DEFAULTS.recording, ...file.recording },
+    jobs: { ...DEFAULTS.jobs, ...file.jobs },
+    announcements: { ...DEFAULTS.announcements, ...file.announcements },
+    memory: { ...DEFAULTS.memory, ...file.memory },
+    audio: { ...DEFAULTS.audio, ...file.audio },
+    video: { ...DEFAULTS.video, ...file.video },
+    webhooks: { ...file.webhooks },
+  };
+  applyEnv(raw, env);
+
+  const webhooks: Record<string, string> = {};
+  for (const [key, value] of Object.entries(raw.webhooks)) {
+    if (!/^\w+$/.test(key)) throw new ConfigError(`"webhooks": invalid name "${key}"`);
+    if (typeof value !== 'string') throw new ConfigError(`"webhooks.${key}" must be a string`);
+    webhooks[key] = value;
+  }
+
+  // Tools: a path relative to the config file, or an inline array.
+  // Webhook targets already carry their env overrides; other placeholders come from the environment.
+  const vars = { ...env, ...webhooks };
+  let tools: ToolConfig[];
+  let toolsFile: string | null = null;
+  try {
+    if (typeof raw.tools === 'string') {
+      toolsFile = resolve(dirname(path), raw.tools);
+      tools = ToolRegistry.fromFile(toolsFile, vars).list();
+    } else {
+      tools = ToolRegistry.parse(raw.tools, `${path} "tools"`, vars).list();
+    }
+  } catch (err: any) {
+    throw new ConfigError(err.message);
+  }
+
+  const provider = requiredString(raw.model.provider, 'model.provider');
+  if (provider !== 'gemini' && provider !== 'mock') {
+    throw new ConfigError('"model.provider" must be "gemini" or "mock"');
+  }
+  const mockScript = optionalString(raw.model.mockScript, 'model.mockScript');
+  const groups: Record<string, string[]> = {};
+  if (!raw.announcements.groups || typeof raw.announcements.groups !== 'object' || Array.isArray(raw.announcements.groups)) {
+    throw new ConfigError('"announcements.groups" must be an object');
+  }
+  for (const [name, members] of Object.entries(raw.announcements.groups)) {
+    if (!Array.isArray(members) || !members.every(m => typeof m === 'string' && m)) {
+      throw new ConfigError(`"announcements.groups.${name}" must be an array of client ids`);
+    }
+    groups[name] = members;
+  }
+  const toolAccess = parseToolAccess(raw.toolAccess, tools);
+  const profiles = parseProfiles(raw.profiles, tools);
+  const defaultProfile = optionalString(raw.defaultProfile, 'defaultProfile');
+  if (defaultProfile && !profiles[defaultProfile]) {
+    throw new ConfigError(`"defaultProfile": unknown profile "${defaultProfile}"`);
+  }
+  const callbackBaseUrl = optionalString(raw.jobs.callbackBaseUrl, 'jobs.callbackBaseUrl');
+  if (callbackBaseUrl && !/^https?:\/\//.test(callbackBaseUrl)) {
+    throw new ConfigError('"jobs.callbackBaseUrl" must be an http(s) URL');
+  }
+
+  return {
+    port: positiveInteger(raw.port, 'port'),
+    model: {
+      provider,
+      name: requiredString(raw.model.name, 'model.name'),
+      voice: optionalString(raw.model.voice, 'model.voice'),
+      language: optionalString(raw.model.language, 'model.language'),
+      mockScript: mockScript && resolve(dirname(path), mockScript),
+    },
+    systemInstruction: requiredString(raw.systemInstruction, 'systemInstruction'),
+    tools,
+    toolsFile,
+    webhooks,
+    limits: {
+      maxConcurrentSessions: positiveInteger(raw.limits.maxConcurrentSessions, 'limits.maxConcurrentSessions'),
+      maxSessionSeconds: positiveInteger(raw.limits.maxSessionSeconds, 'limits.maxSessionSeconds'),
+      audioSecondsPerDay: positiveInteger(raw.limits.audioSecondsPerDay, 'limits.audioSecondsPerDay'),
+      toolCallsPerMinute: positiveInteger(raw.limits.toolCallsPerMinute, 'limits.toolCallsPerMinute'),
+    },
+    session: {
+      graceMs: positiveInteger(raw.session.graceMs, 'session.graceMs'),
+      confirmationTimeoutMs: positiveInteger(raw.session.confirmationTimeoutMs, 'session.confirmationTimeoutMs'),
+      toolDeadlineMs: positiveInteger(raw.session.toolDeadlineMs, 'session.toolDeadlineMs'),
+    },
+    n8n: {
+      failureThreshold: positiveInteger(raw.n8n.failureThreshold, 'n8n.failureThreshold'),
+      cooldownMs: positiveInteger(raw.n8n.cooldownMs, 'n8n.cooldownMs'),
+    },
+    recording: {
+      enabled: boolean(raw.recording.enabled, 'recording.enabled'),
+    },
+    jobs: {
+      timeoutMs: positiveInteger(raw.jobs.timeoutMs, 'jobs.timeoutMs'),
+      callbackBaseUrl,
+    },
+    announcements: { groups },
+    memory: {
+      enabled: boolean(raw.memory.enabled, 'memory.enabled'),
+      maxFacts: positiveInteger(raw.memory.maxFacts, 'memory.maxFacts'),
+      promptBudgetChars: positiveInteger(raw.memory.promptBudgetChars, 'memory.promptBudgetChars'),
+    },
+    audio: {
+      ffmpegPath: requiredString(raw.audio.ffmpegPath, 'audio.ffmpegPath'),
+      bitrateKbps: positiveInteger(raw.audio.bitrateKbps, 'audio.bitrateKbps'),
+    },
+    video: {
+      enabled: boolean(raw.video.enabled, 'video.enabled'),
+      maxFramesPerSecond: positiveInteger(raw.video.maxFramesPerSecond, 'video.maxFramesPerSecond'),
+      maxFrameBytes: positiveInteger(raw.video.maxFrameBytes, 'video.maxFrameBytes'),
+    },
+    toolAccess,
+    profiles,
+    defaultProfile,
+  };
+};
+
+const parseToolAccess = (value: unknown, tools: ToolConfig[]): Record<string, ToolAccessRules> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new ConfigError('"toolAccess" must be an object');
+  // No prototype, so a client id like "__proto__" is stored as a plain key
+  const access: Record<string, ToolAccessRules> = Object.create(null);
+  for (const [clientId, rules] of Object.entries(value as Record<string, any>)) {
+    const field = `toolAccess.${clientId}`;
+    if (!rules || typeof rules !== 'object' || Array.isArray(rules)) throw new ConfigError(`"${field}" must be an object`);
+    for (const list of ['allow', 'deny'] as const) {
+      const entries = rules[list];
+      if (entries === undefined) continue;
+      if (!Array.isArray(entries) || !entries.every((r: unknown) => typeof r === 'string' && isValidRule(r))) {
+        throw new ConfigError(`"${field}.${list}" must be an array of "tool" or "tool:action" rules`);
+      }
+      // Catch typos; names with wildcards are left alone. Built-in tools can be listed too.
+      const known = [...tools, CONFIRM_ACTION_TOOL, ...MEMORY_TOOLS].map(tool => tool.name);
+      const unknown = entries
+        .map((r: string) => r.split(':')[0])
+        .find((name: string) => !name.includes('*') && !known.includes(name));
+      if (unknown) throw new ConfigError(`"${field}.${list}": unknown tool "${unknown}"`);
+    }
+    access[clientId] = { allow: rules.allow, deny: rules.deny };
+  }
+  return access;
+};
+
+const parseProfiles = (value: unknown, tools: ToolConfig[]): Record<string, ProfileSettings> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new ConfigError('"profiles" must be an object');
+  const profiles: Record<string, ProfileSettings> = {};
+  for (const [name, profile] of Object.entries(value as Record<string, any>)) {
+    const field = `profiles.${name}`;
+    if (!/^[\w-]+$/.test(name) || name.length > MAX_PROFILE_NAME_LENGTH) throw new ConfigError(`"profiles": invalid name "${name}"`);
+    if (!profile || typeof profile !== 'object' || Array.isArray(profile)) throw new ConfigError(`"${field}" must be an object`);
+    let allowed: string[] | undefined;
+    if (profile.tools !== undefined) {
+      if (!Array.isArray(profile.tools) || !profile.tools.every((t: unknown) => typeof t === 'string')) {
+        throw new ConfigError(`"${field}.tools" must be an array of tool names`);
+      }
+      const unknown = profile.tools.find((t: string) => !tools.some(tool => tool.name === t));
+      if (unknown) throw new ConfigError(`"${field}.tools": unknown tool "${unknown}"`);
+      allowed = profile.tools;
+    }
+    profiles[name] = {
+      systemInstruction: optionalString(profile.systemInstruction, `${field}.systemInstruction`),
+      voice: optionalString(profile.voice, `${field}.voice`),
+      language: optionalString(profile.language, `${field}.language`),
+      tools: allowed,
+      greeting: optionalString(profile.greeting, `${field}.greeting`),
+    };
+  }
+  return profiles;
+};
+
+export interface ResolvedProfile {
+  // null when no profile applies and the top-level settings are used
+  name: string | null;
+  systemInstruction: string;
+  voice?: string;
+  language?: string;
+  tools: ToolConfig[];
+  greeting?: string;
+}
+
+// The settings a session runs with for a requested profile (or the default). Undefined when the name is unknown.
+export const resolveProfile = (config: GatewayConfig, requested?: string): ResolvedProfile | undefined => {
+  const name = requested || config.defaultProfile || null;
+  // Own keys only: "constructor" or "toString" are not profiles
+  const profile = !name ? {} : Object.hasOwn(config.profiles, name) ? config.profiles[name] : undefined;
+  if (!profile) return undefined;
+  return {
+    name,
+    systemInstruction: profile.systemInstruction ?? config.systemInstruction,
+    voice: profile.voice ?? config.model.voice,
+    language: profile.language ?? config.model.language,
+    tools: profile.tools ? config.tools.filter(t => profile.tools.includes(t.name)) : config.tools,
+    greeting: profile.greeting,
+  };
+};
+
+const WATCH_INTERVAL_MS = 1000;
+
+/**
+ * Polls the config file (and its tool file) and calls `onReload` with each new
+ * valid config; `onReload` throws when it can't apply one. Invalid edits and
+ * rejected configs are reported through `onError` and the previous config
+ * stays in force. Polling survives editors that save by renaming.
+ */
+export class ConfigWatcher {
+  private watched: string[] = [];
+
+  constructor(
+    private path: string,
+    private current: GatewayConfig,
+    private onReload: (next: GatewayConfig, previous: GatewayConfig) => void,
+    private onError: (err: unknown) => void
+  ) {
+    this.watch();
+  }
+
+  close() {
+    this.watched.forEach(file => unwatchFile(file));
+    this.watched = [];
+  }
+
+  private watch() {
+    this.close();
+    this.watched = [this.path, this.current.toolsFile].filter((f): f is string => !!f);
+    for (const file of this.watched) {
+      watchFile(file, { interval: WATCH_INTERVAL_MS, persistent: false }, (curr, prev) => {
+        if (curr.mtimeMs !== prev.mtimeMs) this.reload();
+      });
+    }
+  }
+
+  private reload() {
+    const previous = this.current;
+    let next: GatewayConfig;
+    try {
+      next = loadConfig(this.path);
+      this.onReload(next, previous);
+    } catch (err) {
+      this.onError(err);
+      return;
+    }
+    // Only a config the gateway took counts, so the next reload compares against what is really in force
+    this.current = next;
+    // The tool file may have moved
+    if (next.toolsFile !== previous.toolsFile) this.watch();
+  }
+}
@@ -0,0 +1,90 @@
+import { randomUUID } from 'crypto';
+import { ToolConfig } from './tools';
+import { ModelToolCall, ToolDeclaration } from './providers';
+
+/**
+ * CONFIRMATIONS
+ * Tools marked `requiresConfirmation` are not run when the model calls them.
+ * The call is parked here until the user says yes (reported by the model via
+ * `confirm_action`) or taps a button in the UI, says no, or the timer runs out.
+ */
+
+// Built-in tool the model uses to report the user's spoken answer
+export const CONFIRM_ACTION_TOOL: ToolDeclaration = {
+  name: 'confirm_action',
+  description:
+    "Report the user's answer to a pending confirmation. Only call this after the user has clearly said yes or no to the exact question you asked.",
+  parameters: {
+    type: 'object',
+    properties: {
+      confirmationId: { type: 'string', description: 'The confirmationId returned by the tool that needs confirmation', pattern: '^[0-9a-f]{8}$' },
+      approved: { type: 'boolean', description: 'true if the user said yes, false otherwise' },
+    },
+    required: ['confirmationId', 'approved'],
+  },
+};
+
+export interface PendingConfirmation {
+  id: string;
+  call: ModelToolCall;
+  tool: ToolConfig;
+  // Question put to the user, e.g. "Unlock the front door?"
+  prompt: string;
+  expiresAt: number;
+  timer: NodeJS.Timeout;
+}
+
+// Fill {arg} placeholders in the tool's prompt from the call arguments
+export const renderPrompt = (tool: ToolConfig, args: Record<string, unknown>): string => {
+  if (tool.confirmationPrompt) {
+    return tool.confirmationPrompt.replace(/\{(\w+)\}/g, (_, key) => String(args[key] ?? ''));
+  }
+  const details = Object.entries(args).map(([k, v]) => `${k}: ${typeof v === 'string' ? v : JSON.stringify(v)}`);
+  return `Run ${tool.name.replace(/_/g, ' ')}${details.length ? ` (${details.join(', ')})` : ''}?`;
+};
+
+export class ConfirmationManager {
+  private pending = new Map<string, PendingConfirmation>();
+
+  constructor(private timeoutMs: number, private onExpire: (confirmation: PendingConfirmation) => void) {}
+
+  create(call: ModelToolCall, tool: ToolConfig): PendingConfirmation {
+    const id = randomUUID().slice(0, 8);
+    const confirmation: PendingConfirmation = {
+      id,
+      call,
+      tool,
+      prompt: renderPrompt(tool, call.args),
+      expiresAt: Date.now() + this.timeoutMs,
+      timer: setTimeout(() => {
+        if (this.pending.delete(id)) this.onExpire(confirmation);
+      }, this.timeoutMs),
+    };
+    this.pending.set(id, confirmation);
+    return confirmation;
+  }
+
+  // Remove and return a pending confirmation; undefined if unknown or already settled
+  take(id: string): PendingConfirmation | undefined {
+    const confirmation = this.pending.get(id);
+    if (!confirmation) return undefined;
+    clearTimeout(confirmation.timer);
+    this.pending.delete(id);
+    return confirmation;
+  }
+
+  // The same, looked up by the model's call id (for cancellations)
+  takeByCallId(callId: string): PendingConfirmation | undefined {
+    const confirmation = Array.from(this.pending.values()).find(c => c.call.id === callId);
+    return confirmation && this.take(confirmation.id);
+  }
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  clear() {
+    this.pending.forEach(c => clearTimeout(c.timer));
+    this.pending.clear();
+  }
+}
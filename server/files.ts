@@ -0,0 +1,14 @@
+import { writeFileSync, mkdirSync, renameSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * FILE HELPERS
+ * Shared by the stores that keep their state in one JSON file.
+ */
+
+// Write to a temp file, then rename over `path`, so a crash mid-write can't corrupt it. Throws on failure.
+export const writeJsonAtomic = (path: string, value: unknown) => {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(`${path}.tmp`, JSON.stringify(value, null, 2));
+  renameSync(`${path}.tmp`, path);
+};
@@ -0,0 +1,315 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { CloseCode } from '../shared/protocol';
+import { FakeN8n, TestGateway, connectClient, isSystemText, startFakeN8n, startGateway } from './test-utils';
+
+describe('gateway on the mock provider', () => {
+  let n8n: FakeN8n;
+  let gateway: TestGateway;
+
+  beforeAll(async () => {
+    n8n = await startFakeN8n();
+    gateway = await startGateway({
+      n8n,
+      script: {
+        turns: [
+          {
+            trigger: 'speech',
+            steps: [
+              { type: 'toolCall', name: 'trigger_automation', args: { action: 'turn_lights_on' } },
+              { type: 'text', text: 'Lights are on' },
+            ],
+          },
+        ],
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await gateway?.stop();
+    await n8n?.close();
+  });
+
+  it('answers hello with welcome', async () => {
+    const client = connectClient(gateway.url);
+    const welcome = await client.next('welcome');
+    expect(welcome.version).toBe(1);
+    expect(welcome.resumed).toBe(false);
+    expect(welcome.sessionToken).toBeTruthy();
+    await client.next('text', isSystemText('Assistant Ready'));
+    client.close();
+  });
+
+  it('closes the connection when the first frame is not hello', async () => {
+    // Overrides the type of the opening frame, so it is not a hello
+    const client = connectClient(gateway.url, { type: 'text' } as never);
+    const error = await client.next('error');
+    expect(error.fatal).toBe(true);
+    expect(await client.closed).toBe(CloseCode.PROTOCOL_ERROR);
+  });
+
+  it('runs a tool call against n8n', async () => {
+    const before = n8n.requests.length;
+    const client = connectClient(gateway.url);
+    await client.next('text', isSystemText('Assistant Ready'));
+    client.send({ type: 'text', text: 'Turn on the lights' });
+
+    await client.next('text', isSystemText('Executing: trigger_automation'));
+    const [request] = (await n8n.received(before + 1)).slice(before);
+    expect(request.path).toBe('/webhook/nexora');
+    expect(request.body).toEqual({ action: 'turn_lights_on' });
+    await client.next('text', msg => msg.payload.role === 'assistant' && msg.payload.text === 'Lights are on');
+    client.close();
+  });
+
+  it('resumes the conversation after a reconnect', async () => {
+    const first = connectClient(gateway.url);
+    const { sessionToken } = await first.next('welcome');
+    first.close();
+    await first.closed;
+
+    const second = connectClient(gateway.url, { resumeToken: sessionToken });
+    const welcome = await second.next('welcome');
+    expect(welcome.resumed).toBe(true);
+    expect(welcome.sessionToken).toBe(sessionToken);
+    second.close();
+  });
+
+  it('starts a new conversation for an unknown resume token', async () => {
+    const client = connectClient(gateway.url, { resumeToken: 'not-a-session' });
+    const welcome = await client.next('welcome');
+    expect(welcome.resumed).toBe(false);
+    client.close();
+  });
+});
+
+describe('confirmations', () => {
+  let n8n: FakeN8n;
+  let gateway: TestGateway;
+
+  beforeAll(async () => {
+    n8n = await startFakeN8n();
+    gateway = await startGateway({
+      n8n,
+      script: {
+        turns: [{ trigger: 'speech', steps: [{ type: 'toolCall', name: 'unlock_door', args: { door: 'front' } }] }],
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await gateway?.stop();
+    await n8n?.close();
+  });
+
+  const requestUnlock = async () => {
+    const client = connectClient(gateway.url);
+    await client.next('text', isSystemText('Assistant Ready'));
+    client.send({ type: 'text', text: 'Unlock the front door' });
+    const request = await client.next('confirm_request');
+    expect(request.tool).toBe('unlock_door');
+    expect(request.prompt).toBe('Unlock the front door?');
+    return { client, request };
+  };
+
+  it('runs the tool once the user approves', async () => {
+    const { client, request } = await requestUnlock();
+    expect(n8n.requests.some(r => r.path === '/webhook/unlock-door')).toBe(false);
+
+    client.send({ type: 'confirm_response', id: request.id, approved: true });
+    const resolved = await client.next('confirm_resolved');
+    expect(resolved).toMatchObject({ id: request.id, outcome: 'approved' });
+    const requests = await n8n.received(1);
+    expect(requests[0]).toMatchObject({ path: '/webhook/unlock-door', body: { door: 'front' } });
+    client.close();
+  });
+
+  it('does not run the tool when the user declines', async () => {
+    const before = n8n.requests.length;
+    const { client, request } = await requestUnlock();
+    client.send({ type: 'confirm_response', id: request.id, approved: false });
+    const resolved = await client.next('confirm_resolved');
+    expect(resolved.outcome).toBe('denied');
+    await new Promise(r => setTimeout(r, 300));
+    expect(n8n.requests.length).toBe(before);
+    client.close();
+  });
+});
+
+describe('cancelled tool calls', () => {
+  let n8n: FakeN8n;
+  let gateway: TestGateway;
+
+  beforeAll(async () => {
+    n8n = await startFakeN8n();
+    n8n.delay('/webhook/set-thermostat', 3000);
+    gateway = await startGateway({
+      n8n,
+      script: {
+        turns: [
+          {
+            trigger: 'speech',
+            steps: [
+              { type: 'toolCalls', cancelAfterMs: 500, calls: [{ name: 'set_thermostat', args: { temperature: 20 } }] },
+              { type: 'text', text: 'Never mind' },
+            ],
+          },
+        ],
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await gateway?.stop();
+    await n8n?.close();
+  });
+
+  it('aborts the webhook request when the model cancels the call', async () => {
+    const client = connectClient(gateway.url);
+    await client.next('text', isSystemText('Assistant Ready'));
+    client.send({ type: 'text', text: 'Set the heating to 20' });
+
+    const [request] = await n8n.received(1);
+    await client.next('text', msg => msg.payload.text === 'Never mind');
+    await expect.poll(() => request.aborted).toBe(true);
+    await expect.poll(() => gateway.logs()).toContain('Tool call cancelled');
+    client.close();
+  });
+});
+
+describe('confirmations in a cancelled batch', () => {
+  let n8n: FakeN8n;
+  let gateway: TestGateway;
+
+  beforeAll(async () => {
+    n8n = await startFakeN8n();
+    n8n.delay('/webhook/unlock-door', 3000);
+    n8n.delay('/webhook/set-thermostat', 3000);
+    gateway = await startGateway({
+      n8n,
+      script: {
+        turns: [
+          {
+            trigger: 'speech',
+            steps: [
+              {
+                type: 'toolCalls',
+                cancelAfterMs: 1000,
+                calls: [{ name: 'unlock_door', args: { door: 'front' } }, { name: 'set_thermostat', args: { temperature: 20 } }],
+              },
+            ],
+          },
+        ],
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await gateway?.stop();
+    await n8n?.close();
+  });
+
+  it('aborts a tool the user approved on screen when the model cancels it', async () => {
+    const client = connectClient(gateway.url);
+    await client.next('text', isSystemText('Assistant Ready'));
+    client.send({ type: 'text', text: 'Unlock the door and warm up the house' });
+    const request = await client.next('confirm_request');
+    client.send({ type: 'confirm_response', id: request.id, approved: true });
+
+    await n8n.received(2);
+    const unlock = n8n.requests.find(r => r.path === '/webhook/unlock-door')!;
+    await expect.poll(() => unlock.aborted).toBe(true);
+    client.close();
+  });
+
+  it('withdraws the confirmation card when the model cancels an unanswered call', async () => {
+    const before = n8n.requests.length;
+    const client = connectClient(gateway.url);
+    await client.next('text', isSystemText('Assistant Ready'));
+    client.send({ type: 'text', text: 'Unlock the door and warm up the house' });
+    const request = await client.next('confirm_request');
+
+    const resolved = await client.next('confirm_resolved', undefined, 3000);
+    expect(resolved).toMatchObject({ id: request.id, outcome: 'cancelled' });
+    // Answering afterwards does nothing
+    client.send({ type: 'confirm_response', id: request.id, approved: true });
+    await new Promise(r => setTimeout(r, 300));
+    expect(n8n.requests.slice(before).some(r => r.path === '/webhook/unlock-door')).toBe(false);
+    client.close();
+  });
+});
+
+describe('async automations', () => {
+  const ADMIN_TOKEN = 'test-admin-token';
+  let n8n: FakeN8n;
+  let gateway: TestGateway;
+
+  beforeAll(async () => {
+    n8n = await startFakeN8n();
+    gateway = await startGateway({
+      n8n,
+      env: { GATEWAY_ADMIN_TOKENS: ADMIN_TOKEN },
+      script: {
+        turns: [{ trigger: 'speech', steps: [{ type: 'toolCall', name: 'generate_report', args: { topic: 'energy' } }] }],
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await gateway?.stop();
+    await n8n?.close();
+  });
+
+  // Start the job and return how n8n is told to report back
+  const startReport = async () => {
+    const before = n8n.requests.length;
+    const client = connectClient(gateway.url);
+    await client.next('text', isSystemText('Assistant Ready'));
+    client.send({ type: 'text', text: 'Make me an energy report' });
+    const [request] = (await n8n.received(before + 1)).slice(before);
+    expect(request.path).toBe('/webhook/generate-report');
+    const callbackPath = new URL(String(request.headers['x-nexora-callback-url'])).pathname;
+    const callback = (body: unknown, token = String(request.headers['x-nexora-job-token'])) =>
+      fetch(`${gateway.httpUrl}${callbackPath}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify(body),
+      });
+    return { client, request, callback };
+  };
+
+  const storedNotifications = async () => {
+    const res = await fetch(`${gateway.httpUrl}/api/notifications`, { headers: { Authorization: `Bearer ${ADMIN_TOKEN}` } });
+    return (await res.json()).notifications as { source: string; result?: unknown; error?: string }[];
+  };
+
+  it('delivers the callback result to the session that started the job', async () => {
+    const { client, request, callback } = await startReport();
+    expect(request.headers['x-nexora-job-id']).toBeTruthy();
+
+    expect((await callback({ result: { kwh: 42 } }, 'wrong-token')).status).toBe(401);
+    expect((await callback({ result: { kwh: 42 } })).status).toBe(204);
+    await client.next('text', isSystemText('Finished: generate_report'));
+    // The job is finished, so a repeated callback is refused
+    expect((await callback({ result: { kwh: 42 } })).status).toBe(404);
+    expect(await storedNotifications()).toEqual([]);
+    client.close();
+  });
+
+  it('keeps the result for the next session when the client has gone', async () => {
+    const { client, callback } = await startReport();
+    const detached = () => gateway.logs().split('Session detached').length - 1;
+    const before = detached();
+    client.close();
+    // Until the gateway notices, the session would still take the result
+    await expect.poll(detached).toBe(before + 1);
+
+    expect((await callback({ error: 'Meter offline' })).status).toBe(204);
+    expect(await storedNotifications()).toMatchObject([{ source: 'generate_report', error: 'Meter offline' }]);
+
+    const next = connectClient(gateway.url);
+    await next.next('welcome');
+    await expect.poll(() => gateway.logs()).toContain('Delivering stored notifications');
+    expect(await storedNotifications()).toEqual([]);
+    next.close();
+  });
+});
@@ -1,162 +1,568 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { GoogleGenAI, LiveServerMessage } from '@google/genai';
+import { createServer, IncomingMessage } from 'http';
+import { fileURLToPath } from 'url';
+import { randomUUID } from 'crypto';
+import { ToolRegistry } from './tools';
+import { AssistantSession } from './session';
+import { AuthError, ClientIdentity, verifyToken } from './auth';
+import { UsageStore } from './usage';
+import { ConversationStore } from './history';
+import { HttpError, HttpRouter, readJsonBody, requireBearer, sendJson } from './http';
+import { createProvider } from './providers';
+import { N8nClient } from './n8n';
+import { AutomationJob, JobOutcome, JobRegistry, JobSettings, parseJobOutcome } from './jobs';
+import { NotificationStore } from './notifications';
+import { AnnouncementHub, parseAnnouncementRequest } from './announcements';
+import { MemoryError, MemoryStore } from './memory';
+import { negotiateAudio, probeFfmpeg } from './audio';
+import { ToolPolicy } from './tool-policy';
+import { AuditLog } from './audit';
+import { GatewayMetrics, PROMETHEUS_CONTENT_TYPE } from './metrics';
+import { logger } from './logger';
+import { ConfigWatcher, DEFAULT_CONFIG_PATH, GatewayConfig, loadConfig, resolveProfile } from './config';
+import {
+  PROTOCOL_VERSION,
+  AudioFormats,
+  CLOSE_REASONS,
+  CloseCode,
+  ErrorCode,
+  HelloMessage,
+  ServerMessage,
+  encodeMessage,
+  parseClientMessage,
+} from '../shared/protocol';
 // Note: In a real Node environment, you would use 'dotenv' to load keys
 // import dotenv from 'dotenv'; dotenv.config();
 
 /**
  * CONFIGURATION
+ * Settings come from the gateway config file (see server/config.ts); secrets
+ * and deployment paths only from the environment.
  */
-const PORT = 8080;
-const API_KEY = process.env.API_KEY || ''; // MUST be set in environment
-const N8N_WEBHOOK_URL = (import.meta as any).env?.VITE_N8N_WEBHOOK_URL || ''; // MUST be set in environment
-const MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
-
-// Define the automation tool for n8n
-const automationTool: any = {
-  functionDeclarations: [
-    {
-      name: 'trigger_automation',
-      description: 'Trigger an external automation workflow via n8n.',
-      parameters: {
-        type: 'OBJECT',
-        properties: {
-          action: {
-            type: 'STRING',
-            description: 'The action to perform (e.g., turn_lights_on, check_calendar)',
-          },
-          details: {
-            type: 'STRING',
-            description: 'Additional details or context for the action',
-          }
-        },
-        required: ['action']
-      }
-    }
-  ]
+const CONFIG_PATH = process.env.GATEWAY_CONFIG || DEFAULT_CONFIG_PATH;
+const API_KEY = process.env.API_KEY || ''; // MUST be set in environment (gemini provider)
+const USAGE_FILE = process.env.USAGE_FILE || fileURLToPath(new URL('../data/usage.json', import.meta.url));
+const HISTORY_DIR = process.env.HISTORY_DIR || fileURLToPath(new URL('../data/conversations', import.meta.url));
+const RECORDINGS_DIR = process.env.RECORDINGS_DIR || fileURLToPath(new URL('../data/recordings', import.meta.url));
+const NOTIFICATIONS_FILE = process.env.NOTIFICATIONS_FILE || fileURLToPath(new URL('../data/notifications.json', import.meta.url));
+const MEMORY_FILE = process.env.MEMORY_FILE || fileURLToPath(new URL('../data/memory.json', import.meta.url));
+const AUDIT_FILE = process.env.AUDIT_FILE || fileURLToPath(new URL('../data/audit.jsonl', import.meta.url));
+const HANDSHAKE_TIMEOUT_MS = 5000;
+// Comma-separated HMAC secrets for client tokens; more than one allows rotation
+const AUTH_SECRETS = (process.env.GATEWAY_AUTH_SECRETS || '').split(',').map(s => s.trim()).filter(Boolean);
+// Local development only: accept clients without a token
+const ALLOW_ANONYMOUS = process.env.GATEWAY_ALLOW_ANONYMOUS === 'true';
+// Comma-separated bearer tokens for the HTTP API; the API is closed when unset
+const ADMIN_TOKENS = (process.env.GATEWAY_ADMIN_TOKENS || '').split(',').map(s => s.trim()).filter(Boolean);
+// Bearer token for GET /metrics; the endpoint is open when unset (keep it off the public internet)
+const METRICS_TOKEN = process.env.METRICS_TOKEN || '';
+// Shared secret for the X-Nexora-Signature header on webhook calls (unsigned when unset)
+const N8N_SIGNING_SECRET = process.env.N8N_SIGNING_SECRET || '';
+// Bearer token n8n uses to push announcements; the endpoint is closed when unset
+const ANNOUNCE_SECRET = process.env.ANNOUNCE_SECRET || '';
+
+if (AUTH_SECRETS.length === 0 && !ALLOW_ANONYMOUS) {
+  throw new Error('GATEWAY_AUTH_SECRETS must be set (or GATEWAY_ALLOW_ANONYMOUS=true for local development)');
+}
+if (ALLOW_ANONYMOUS) {
+  logger.warn('Anonymous gateway clients are allowed');
+}
+
+// Everything below that depends on the config is rebuilt on reload; sessions capture it when they start
+let config = loadConfig(CONFIG_PATH);
+logger.info('Loaded config', { path: CONFIG_PATH, tools: config.tools.length, toolsFile: config.toolsFile });
+
+// The n8n-backed tools the model is allowed to call
+let tools = new ToolRegistry(config.tools);
+
+const n8n = new N8nClient({ signingSecret: N8N_SIGNING_SECRET, ...config.n8n });
+if (!N8N_SIGNING_SECRET) {
+  logger.warn('N8N_SIGNING_SECRET not set: webhook calls will be unsigned');
+}
+
+const buildProvider = (c: GatewayConfig) =>
+  createProvider({ provider: c.model.provider, apiKey: API_KEY, model: c.model.name, mockScript: c.model.mockScript });
+
+let provider = buildProvider(config);
+logger.info('Model provider ready', { provider: provider.name, model: config.model.name });
+
+// Per-client quotas, persisted across restarts
+const usage = new UsageStore(USAGE_FILE, config.limits);
+process.on('exit', () => usage.close());
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => process.exit(0));
+}
+
+// Transcripts and tool calls of every session
+const history = new ConversationStore(HISTORY_DIR);
+
+// Live conversations by session token, including ones waiting for their client to reconnect
+const sessions = new Map<string, AssistantSession>();
+
+// Results of async automations that outlived their session, kept for the client's next one
+const notifications = new NotificationStore(NOTIFICATIONS_FILE);
+
+const jobSettings = (c: GatewayConfig): JobSettings => ({
+  timeoutMs: c.jobs.timeoutMs,
+  callbackBaseUrl: c.jobs.callbackBaseUrl || `http://localhost:${c.port}`,
+});
+
+// Hand a finished job to the session that started it, or park it for the client's next session
+const finishJob = (job: AutomationJob, outcome: JobOutcome, result: 'ok' | 'error' | 'expired') => {
+  const session = findSession(job.sessionId);
+  const delivered = session?.deliverJobResult(job, outcome) ?? false;
+  if (!delivered) {
+    notifications.add({ clientId: job.clientId, source: job.tool, jobId: job.id, result: outcome.result, error: outcome.error });
+    // The original conversation still gets the result in its history
+    if (!session) history.record(job.sessionId, { type: 'job_result', jobId: job.id, name: job.tool, result: outcome.result, error: outcome.error });
+  }
+  logger.info('Async job finished', { jobId: job.id, tool: job.tool, sessionId: job.sessionId, result, delivered });
+  metrics.jobsFinished.inc({ tool: job.tool, outcome: result, delivery: delivered ? 'session' : 'stored' });
 };
 
-const wss = new WebSocketServer({ port: PORT });
-console.log(`Gateway running on ws://localhost:${PORT}`);
+// Long-term facts about the household, shared by every session
+const memory = new MemoryStore(MEMORY_FILE, config.memory);
 
-wss.on('connection', async (ws: WebSocket) => {
-  console.log('Client connected');
+// Checks every tool call before it runs; refusals go to the audit log
+const toolPolicy = new ToolPolicy(config.toolAccess);
+const audit = new AuditLog(AUDIT_FILE);
 
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-  
-  // Connect to Gemini Live API
-  // We keep the session active for the duration of the WS connection
-  let session: any = null;
+// Standby browser connections that announcements are pushed to
+const announcements = new AnnouncementHub(config.announcements.groups);
 
-  try {
-    session = await ai.live.connect({
-      model: MODEL,
-      config: {
-        tools: [automationTool],
-        systemInstruction: "You are a helpful home assistant. If the user asks to do something outside of conversation (like lights, calendar, data), use the trigger_automation tool.",
-      },
-      callbacks: {
-        onopen: () => {
-          console.log('Connected to Gemini');
-          ws.send(JSON.stringify({ type: 'text', payload: { role: 'system', text: 'Assistant Ready' } }));
-        },
-        onmessage: async (msg: LiveServerMessage) => {
-          // 1. Handle Audio Output
-          const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-          if (audioData) {
-            ws.send(JSON.stringify({ type: 'audio', data: audioData }));
-          }
-
-          // 2. Handle Text Transcription (for UI logs)
-          const transcript = msg.serverContent?.modelTurn?.parts?.[0]?.text;
-          if (transcript) {
-             ws.send(JSON.stringify({ type: 'text', payload: { role: 'assistant', text: transcript } }));
-          }
-
-          // 3. Handle Tool Calls (n8n integration)
-          if (msg.toolCall) {
-            console.log('Tool call received:', JSON.stringify(msg.toolCall));
-            
-            for (const call of msg.toolCall.functionCalls) {
-              if (call.name === 'trigger_automation') {
-                try {
-                  // Notify Client
-                  ws.send(JSON.stringify({ type: 'text', payload: { role: 'system', text: `Executing: ${call.args.action}` } }));
-
-                  // Call n8n
-                  const n8nResponse = await fetch(N8N_WEBHOOK_URL, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify(call.args)
-                  });
-                  
-                  const result = await n8nResponse.json();
-                  
-                  // Send result back to Gemini
-                  await session.sendToolResponse({
-                    functionResponses: {
-                      name: call.name,
-                      id: call.id,
-                      response: { result: result }
-                    }
-                  });
-
-                } catch (err) {
-                  console.error('n8n Error:', err);
-                  // Send error back to Gemini so it can apologize
-                  await session.sendToolResponse({
-                    functionResponses: {
-                      name: call.name,
-                      id: call.id,
-                      response: { error: "Failed to execute automation" }
-                    }
-                  });
-                }
-              }
-            }
-          }
-          
-          // 4. Handle Interruption
-          if (msg.serverContent?.interrupted) {
-            ws.send(JSON.stringify({ type: 'interrupt' }));
-          }
-        },
-        onclose: () => {
-          console.log('Gemini disconnected');
-        },
-        onerror: (err) => {
-          console.error('Gemini Error:', err);
-        }
-      }
-    });
+// Compressed client audio needs ffmpeg; without it only PCM is offered
+let ffmpegAvailable = false;
+const checkFfmpeg = (ffmpegPath: string) =>
+  probeFfmpeg(ffmpegPath).then(ok => {
+    ffmpegAvailable = ok;
+    if (ok) logger.info('Compressed audio enabled', { ffmpegPath });
+    else logger.warn('ffmpeg not found: clients must send and receive PCM', { ffmpegPath });
+  });
+checkFfmpeg(config.audio.ffmpegPath);
 
+const jobs = new JobRegistry(jobSettings(config), (job) => {
+  finishJob(job, { ok: false, error: `No result within ${Math.round((job.expiresAt - job.startedAt) / 1000)} seconds` }, 'expired');
+});
+
+// Apply a changed config file without touching running sessions
+const configWatcher = new ConfigWatcher(
+  CONFIG_PATH,
+  config,
+  (next, previous) => {
+    // Throws (and the watcher keeps the previous config) if the provider can't be built
+    const nextProvider = buildProvider(next);
+    tools = new ToolRegistry(next.tools);
+    provider = nextProvider;
+    config = next;
+    usage.limits = next.limits;
+    n8n.configure(next.n8n);
+    jobs.configure(jobSettings(next));
+    announcements.groups = next.announcements.groups;
+    toolPolicy.rules = next.toolAccess;
+    memory.settings = next.memory;
+    if (next.audio.ffmpegPath !== previous.audio.ffmpegPath) checkFfmpeg(next.audio.ffmpegPath);
+    if (next.port !== PORT) {
+      logger.warn('Port changes take effect after a restart', { port: PORT, configured: next.port });
+    }
+    logger.info('Config reloaded', { tools: next.tools.length, provider: provider.name, model: next.model.name });
+  },
+  (err) => logger.error('Config reload failed, keeping the previous config', { err })
+);
+process.on('exit', () => configWatcher.close());
+
+const metrics = new GatewayMetrics();
+metrics.registry.gauge('nexora_active_sessions', 'Open conversations, including ones waiting for their client', () => sessions.size);
+metrics.registry.gauge('nexora_connected_clients', 'Open WebSocket connections', () => wss.clients.size);
+metrics.registry.gauge('nexora_standby_clients', 'Browser connections listening for announcements', () => announcements.size);
+metrics.registry.gauge('nexora_running_jobs', 'Async automations waiting for their callback', () => jobs.size);
+
+/**
+ * HTTP API
+ */
+const requireAdmin = (req: IncomingMessage) => {
+  if (ADMIN_TOKENS.length === 0) throw new HttpError(403, 'HTTP API disabled: set GATEWAY_ADMIN_TOKENS');
+  requireBearer(req, ADMIN_TOKENS);
+};
+
+// Store errors are the caller's fault (empty, too long, memory full)
+const memoryRequest = <T>(fn: () => T): T => {
+  try {
+    return fn();
   } catch (err) {
-    console.error('Failed to start Gemini session:', err);
-    ws.close();
-    return;
+    if (err instanceof MemoryError) throw new HttpError(400, err.message);
+    throw err;
   }
+};
+
+// Live session by its public id (the map is keyed by the secret resume token)
+const findSession = (id: string) => Array.from(sessions.values()).find(s => s.id === id);
+
+const router = new HttpRouter()
+  // Probes: liveness only says the process answers, readiness that it accepts clients
+  .get('/healthz', (req, res) => {
+    sendJson(res, 200, { status: 'ok', uptimeSeconds: Math.round(process.uptime()) });
+  })
+  .get('/readyz', (req, res) => {
+    const ready = server.listening;
+    sendJson(res, ready ? 200 : 503, { status: ready ? 'ready' : 'starting', provider: provider.name, sessions: sessions.size });
+  })
+  // Public so the browser can offer the profiles and set its recognizer language; no instructions or tools
+  .get('/profiles', (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    const profiles = Object.entries(config.profiles).map(([name, profile]) => ({ name, language: profile.language ?? null }));
+    sendJson(res, 200, { defaultProfile: config.defaultProfile ?? null, profiles });
+  })
+  .get('/metrics', (req, res) => {
+    if (METRICS_TOKEN) requireBearer(req, [METRICS_TOKEN]);
+    res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE }).end(metrics.registry.render());
+  })
+  .get('/api/conversations', async (req, res) => {
+    requireAdmin(req);
+    sendJson(res, 200, { conversations: await history.list() });
+  })
+  .get('/api/conversations/:id', async (req, res, { id }) => {
+    requireAdmin(req);
+    const conversation = await history.get(id);
+    if (!conversation) throw new HttpError(404, 'Conversation not found');
+    sendJson(res, 200, conversation);
+  })
+  .delete('/api/conversations/:id', async (req, res, { id }) => {
+    requireAdmin(req);
+    if (!(await history.delete(id))) throw new HttpError(404, 'Conversation not found');
+    res.writeHead(204).end();
+  })
+  .get('/api/sessions', (req, res) => {
+    requireAdmin(req);
+    sendJson(res, 200, { sessions: Array.from(sessions.values()).map(s => s.summary()) });
+  })
+  .get('/api/sessions/:id', (req, res, { id }) => {
+    requireAdmin(req);
+    const session = findSession(id);
+    if (!session) throw new HttpError(404, 'Session not found');
+    sendJson(res, 200, session.summary());
+  })
+  // Force-disconnect: the client is told why and the conversation cannot be resumed
+  .delete('/api/sessions/:id', (req, res, { id }) => {
+    requireAdmin(req);
+    const session = findSession(id);
+    if (!session) throw new HttpError(404, 'Session not found');
+    session.terminate('Session ended by an administrator');
+    res.writeHead(204).end();
+  })
+  // Refused tool calls, newest first (see server/audit.ts)
+  .get('/api/audit', async (req, res) => {
+    requireAdmin(req);
+    const params = new URL(req.url || '/', 'http://localhost').searchParams;
+    const limit = Number(params.get('limit') || 100);
+    if (!Number.isInteger(limit) || limit <= 0) throw new HttpError(400, '"limit" must be a positive integer');
+    sendJson(res, 200, { entries: await audit.recent(limit, params.get('clientId') || undefined) });
+  })
+  .get('/api/jobs', (req, res) => {
+    requireAdmin(req);
+    sendJson(res, 200, { jobs: jobs.list() });
+  })
+  .get('/api/notifications', (req, res) => {
+    requireAdmin(req);
+    const clientId = new URL(req.url || '/', 'http://localhost').searchParams.get('clientId') || undefined;
+    sendJson(res, 200, { notifications: notifications.list(clientId) });
+  })
+  .delete('/api/notifications/:id', (req, res, { id }) => {
+    requireAdmin(req);
+    if (!notifications.delete(id)) throw new HttpError(404, 'Notification not found');
+    res.writeHead(204).end();
+  })
+  // Review and edit what the assistant remembers (see server/memory.ts)
+  .get('/api/memories', (req, res) => {
+    requireAdmin(req);
+    sendJson(res, 200, { memories: memory.list() });
+  })
+  .post('/api/memories', async (req, res) => {
+    requireAdmin(req);
+    const text = (await readJsonBody(req))?.text;
+    sendJson(res, 201, memoryRequest(() => memory.add(text, 'api')));
+  })
+  .put('/api/memories/:id', async (req, res, { id }) => {
+    requireAdmin(req);
+    const text = (await readJsonBody(req))?.text;
+    const fact = memoryRequest(() => memory.update(id, text));
+    if (!fact) throw new HttpError(404, 'Memory not found');
+    sendJson(res, 200, fact);
+  })
+  .delete('/api/memories/:id', (req, res, { id }) => {
+    requireAdmin(req);
+    if (!memory.delete(id)) throw new HttpError(404, 'Memory not found');
+    res.writeHead(204).end();
+  })
+  // Push a message to one client, a group or everyone (see server/announcements.ts)
+  .post('/api/announcements', async (req, res) => {
+    if (!ANNOUNCE_SECRET) throw new HttpError(403, 'Announcements disabled: set ANNOUNCE_SECRET');
+    requireBearer(req, [ANNOUNCE_SECRET]);
+    const request = parseAnnouncementRequest(await readJsonBody(req));
+    const { announcement, delivered } = announcements.announce(request);
+    logger.info('Announcement pushed', { announcementId: announcement.id, target: request.target, delivered });
+    metrics.announcements.inc({ target: request.target.kind });
+    sendJson(res, 200, { id: announcement.id, delivered });
+  })
+  // n8n reports the outcome of an async automation (see server/jobs.ts)
+  .post('/callbacks/jobs/:id', async (req, res, { id }) => {
+    const job = jobs.get(id);
+    if (!job) throw new HttpError(404, 'Unknown or finished job');
+    requireBearer(req, [job.token]);
+    const body = await readJsonBody(req);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) throw new HttpError(400, 'Body must be a JSON object');
+    // A duplicate callback may have won the race while the body was read
+    if (!jobs.take(id)) throw new HttpError(404, 'Unknown or finished job');
+
+    const outcome = parseJobOutcome(body);
+    finishJob(job, outcome, outcome.ok ? 'ok' : 'error');
+    res.writeHead(204).end();
+  });
+
+// HTTP and WebSocket share one port; upgrade requests go to the WebSocket server
+const server = createServer((req, res) => {
+  // The router answers its own errors; this catches what escapes it so a bad request can't take the process down
+  router.handle(req, res).catch(err => {
+    logger.error('HTTP request failed', { method: req.method, url: req.url, err });
+    if (!res.headersSent) res.writeHead(500);
+    res.end();
+  });
+});
+const wss = new WebSocketServer({ server });
+const PORT = config.port;
+server.listen(PORT, () => {
+  logger.info('Gateway running', { ws: `ws://localhost:${PORT}`, api: `http://localhost:${PORT}/api`, metrics: `http://localhost:${PORT}/metrics` });
+});
+
+// Resolve a client token to an identity; anonymous access only when explicitly enabled
+const authenticate = (token: string | null | undefined): ClientIdentity => {
+  if (token) return verifyToken(token, AUTH_SECRETS);
+  if (ALLOW_ANONYMOUS) return { id: 'anonymous', expiresAt: Infinity };
+  throw new AuthError('Missing auth token');
+};
+
+wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+  // Re-bound to the session's logger once the client has one, so lines carry both ids
+  const connId = randomUUID();
+  let log = logger.child({ connId });
+  log.info('Client connected', { remoteAddress: req.socket.remoteAddress });
+  metrics.connections.inc();
+
+  const send = (msg: ServerMessage) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(encodeMessage(msg));
+  };
+
+  const sendError = (code: ErrorCode, message: string, closeCode?: number) => {
+    send({ type: 'error', code, message, fatal: closeCode !== undefined });
+    if (closeCode !== undefined) ws.close(closeCode, CLOSE_REASONS[closeCode]);
+  };
+
+  // The client must say hello before we spend anything on a model session
+  let handshakeDone = false;
+  const handshakeTimer = setTimeout(() => {
+    sendError('handshake_required', 'No hello received', CloseCode.HANDSHAKE_TIMEOUT);
+  }, HANDSHAKE_TIMEOUT_MS);
+
+  let session: AssistantSession | null = null;
+  let standby = false;
+
+  // Token may come on the URL (?token=...) or in the hello frame
+  const queryToken = new URL(req.url || '/', 'http://localhost').searchParams.get('token');
+
+  // Attach to the conversation named by the resume token, or start a new one.
+  // A conversation can only be resumed by the identity that started it.
+  const openSession = async (identity: ClientIdentity, hello: HelloMessage) => {
+    let audio: AudioFormats;
+    try {
+      audio = negotiateAudio(hello.audio, ffmpegAvailable);
+    } catch (err) {
+      log.warn('Unsupported audio format', { clientId: identity.id, audio: hello.audio });
+      sendError('audio_format', err instanceof Error ? err.message : String(err), CloseCode.UNSUPPORTED_AUDIO);
+      return;
+    }
+
+    const existing = hello.resumeToken ? sessions.get(hello.resumeToken) : undefined;
+    if (existing && !existing.isClosed && existing.clientId === identity.id) {
+      session = existing;
+      send({
+        type: 'welcome',
+        version: PROTOCOL_VERSION,
+        sessionToken: session.token,
+        resumed: true,
+        audio,
+        video: session.videoLimits ?? undefined,
+      });
+      session.attach(ws, audio);
+      log = session.log.child({ connId });
+      log.info('Session resumed');
+      metrics.sessionsStarted.inc({ resumed: 'true' });
+      return;
+    }
+
+    const profile = resolveProfile(config, hello.profile);
+    if (!profile) {
+      log.warn('Unknown profile', { clientId: identity.id, profile: hello.profile });
+      sendError('unknown_profile', `Unknown profile: ${hello.profile}`, CloseCode.UNKNOWN_PROFILE);
+      return;
+    }
+
+    const held = Array.from(sessions.values()).filter(s => s.clientId === identity.id && !s.isClosed).length;
+    if (held >= usage.limits.maxConcurrentSessions) {
+      const message = `At most ${usage.limits.maxConcurrentSessions} concurrent sessions allowed`;
+      send({ type: 'limit', limit: 'concurrent_sessions', message });
+      log.warn('Session refused', { clientId: identity.id, limit: 'concurrent_sessions' });
+      metrics.limitHits.inc({ limit: 'concurrent_sessions' });
+      ws.close(CloseCode.LIMIT_EXCEEDED, CLOSE_REASONS[CloseCode.LIMIT_EXCEEDED]);
+      return;
+    }
+    if (usage.remainingAudioSeconds(identity.id) <= 0) {
+      const message = 'Daily audio allowance used up';
+      send({ type: 'limit', limit: 'audio_daily', message });
+      log.warn('Session refused', { clientId: identity.id, limit: 'audio_daily' });
+      metrics.limitHits.inc({ limit: 'audio_daily' });
+      ws.close(CloseCode.LIMIT_EXCEEDED, CLOSE_REASONS[CloseCode.LIMIT_EXCEEDED]);
+      return;
+    }
+
+    const created = new AssistantSession({
+      clientId: identity.id,
+      provider,
+      model: config.model.name,
+      profile: profile.name,
+      systemInstruction: profile.systemInstruction,
+      voice: profile.voice,
+      language: profile.language,
+      // Profiles that allow every tool share the registry; others get their subset
+      tools: profile.tools === config.tools ? tools : new ToolRegistry(profile.tools),
+      greeting: profile.greeting,
+      toolPolicy,
+      audit,
+      n8n,
+      jobs,
+      memory: config.memory.enabled ? memory : null,
+      graceMs: config.session.graceMs,
+      usage,
+      history,
+      confirmationTimeoutMs: config.session.confirmationTimeoutMs,
+      toolDeadlineMs: config.session.toolDeadlineMs,
+      metrics,
+      audio: config.audio,
+      video: config.video.enabled ? config.video : null,
+      recordTo: config.recording.enabled ? RECORDINGS_DIR : undefined,
+    });
+    session = created;
+    log = created.log.child({ connId });
+    log.info('Session started', { profile: profile.name });
+    metrics.sessionsStarted.inc({ resumed: 'false' });
+    sessions.set(created.token, created);
+    created.onClose = () => sessions.delete(created.token);
+
+    send({
+      type: 'welcome',
+      version: PROTOCOL_VERSION,
+      sessionToken: created.token,
+      resumed: false,
+      audio,
+      video: created.videoLimits ?? undefined,
+    });
+    created.attach(ws, audio);
+
+    try {
+      await created.connect();
+      created.greet(notifications.take(identity.id));
+    } catch (err) {
+      log.error('Failed to start model session', { err });
+      created.sendError('upstream', 'Could not connect to the assistant', CloseCode.UPSTREAM_FAILED);
+      created.close('upstream_failed');
+    }
+  };
 
   // Handle messages from Client (Browser)
   ws.on('message', async (data) => {
+    const parsed = parseClientMessage(data.toString());
+    if (!parsed.ok) {
+      sendError(parsed.error.code, parsed.error.message, handshakeDone ? undefined : CloseCode.PROTOCOL_ERROR);
+      return;
+    }
+    const msg = parsed.message;
+
+    // 1. Version handshake
+    if (!handshakeDone) {
+      clearTimeout(handshakeTimer);
+      if (msg.type !== 'hello') {
+        sendError('handshake_required', 'First message must be hello', CloseCode.PROTOCOL_ERROR);
+        return;
+      }
+      if (msg.version !== PROTOCOL_VERSION) {
+        sendError('unsupported_version', `Gateway speaks protocol v${PROTOCOL_VERSION}, client sent v${msg.version}`, CloseCode.UNSUPPORTED_VERSION);
+        return;
+      }
+
+      // 2. Authenticate before any model session is opened
+      let identity: ClientIdentity;
+      try {
+        identity = authenticate(queryToken || msg.authToken);
+      } catch (err) {
+        const reason = err instanceof AuthError ? err.message : 'Authentication failed';
+        log.warn('Rejected client', { reason });
+        sendError('unauthorized', reason, CloseCode.UNAUTHORIZED);
+        return;
+      }
+
+      handshakeDone = true;
+      log.info('Client authenticated', { clientId: identity.id, standby: msg.standby === true });
+      if (msg.standby) {
+        // Announcements only: nothing is spent on a model session
+        standby = true;
+        announcements.listen(ws, identity.id);
+        send({ type: 'welcome', version: PROTOCOL_VERSION, sessionToken: '', resumed: false, standby: true });
+        return;
+      }
+      await openSession(identity, msg);
+      return;
+    }
+
+    // 3. Session traffic
+    if (standby) {
+      sendError('malformed', 'Standby connections only receive announcements');
+      return;
+    }
     try {
-      const msg = JSON.parse(data.toString());
-
-      if (msg.type === 'audio' && msg.data) {
-        // Forward audio to Gemini
-        // Convert base64 to Blob format required by SDK (or raw object if using low-level)
-        // SDK 'sendRealtimeInput' accepts { mimeType, data }
-        await session.sendRealtimeInput({
-          mimeType: 'audio/pcm;rate=16000',
-          data: msg.data
-        });
+      switch (msg.type) {
+        case 'hello':
+          sendError('malformed', 'Handshake already completed');
+          break;
+        case 'audio':
+          // Forward audio to the model
+          session?.sendAudio(msg.data);
+          break;
+        case 'video_frame':
+          session?.sendVideoFrame(msg);
+          break;
+        case 'text':
+          // Typed input takes the same path as a spoken turn
+          session?.sendText(msg.text.trim());
+          break;
+        case 'confirm_response':
+          session?.confirmFromClient(msg.id, msg.approved).catch(err => {
+            log.error('Confirmation failed', { err });
+            sendError('internal', 'Failed to complete the confirmed action');
+          });
+          break;
+        case 'tool_result':
+          session?.clientToolResult(msg);
+          break;
       }
     } catch (err) {
-      console.error('Error processing client message:', err);
+      log.error('Error processing client message', { type: msg.type, err });
+      sendError('internal', 'Failed to forward message to the assistant');
     }
   });
 
-  ws.on('close', () => {
-    console.log('Client disconnected');
-    // Session doesn't have a close method exposed easily in the typed SDK sometimes, 
-    // but usually handling the WS close is enough.
+  ws.on('close', (code) => {
+    log.info('Client disconnected', { code });
+    clearTimeout(handshakeTimer);
+    announcements.remove(ws);
+    // Keep the conversation around in case the client comes back
+    session?.detach(ws);
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,118 @@
+import { appendFile, readFile, readdir, unlink, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { logger } from './logger';
+
+/**
+ * CONVERSATION HISTORY
+ * Every session is written as one JSONL file: one event per line, in order.
+ * Files are append-only while the session runs, so a crash loses at most the
+ * line being written.
+ */
+
+export type ConversationEvent =
+  | { type: 'session_start'; clientId: string }
+  | { type: 'user'; text: string }
+  | { type: 'assistant'; text: string }
+  | { type: 'tool_call'; callId: string; name: string; args: unknown }
+  | { type: 'tool_result'; callId: string; name: string; result?: unknown; error?: unknown }
+  | { type: 'job_result'; jobId: string; name: string; result?: unknown; error?: string }
+  | { type: 'session_end'; reason: string };
+
+export type StoredEvent = ConversationEvent & { ts: string };
+
+export interface ConversationSummary {
+  id: string;
+  clientId: string | null;
+  startedAt: string | null;
+  endedAt: string | null;
+  turns: number;
+  toolCalls: number;
+}
+
+export interface Conversation extends ConversationSummary {
+  events: StoredEvent[];
+}
+
+// Session ids are UUIDs; anything else never touches the filesystem
+const ID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+export class ConversationStore {
+  // Per-session write chains keep appends in order without blocking the event loop
+  private writes = new Map<string, Promise<void>>();
+  private ready: Promise<unknown>;
+
+  constructor(private dir: string) {
+    this.ready = mkdir(dir, { recursive: true });
+  }
+
+  private fileFor(id: string): string | null {
+    return ID_PATTERN.test(id) ? join(this.dir, `${id}.jsonl`) : null;
+  }
+
+  record(sessionId: string, event: ConversationEvent) {
+    const file = this.fileFor(sessionId);
+    if (!file) return;
+
+    const line = JSON.stringify({ ts: new Date().toISOString(), ...event }) + '\n';
+    const previous = this.writes.get(sessionId) ?? this.ready;
+    const next = previous
+      .then(() => appendFile(file, line))
+      .catch(err => logger.error('Failed to record history', { sessionId, err }));
+    this.writes.set(sessionId, next);
+
+    // Drop the chain once the session is over and its last write has landed
+    if (event.type === 'session_end') {
+      next.then(() => {
+        if (this.writes.get(sessionId) === next) this.writes.delete(sessionId);
+      });
+    }
+  }
+
+  async list(): Promise<ConversationSummary[]> {
+    await this.ready;
+    const files = (await readdir(this.dir)).filter(f => f.endsWith('.jsonl'));
+    const conversations = await Promise.all(files.map(f => this.get(f.slice(0, -'.jsonl'.length))));
+    return conversations
+      .filter((c): c is Conversation => c !== null)
+      .map(({ events, ...summary }) => summary)
+      .sort((a, b) => (b.startedAt ?? '').localeCompare(a.startedAt ?? ''));
+  }
+
+  async get(id: string): Promise<Conversation | null> {
+    const file = this.fileFor(id);
+    if (!file || !existsSync(file)) return null;
+
+    await this.writes.get(id);
+    const events: StoredEvent[] = [];
+    for (const line of (await readFile(file, 'utf-8')).split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // A torn final line from a crash; skip it
+      }
+    }
+
+    const start = events.find(e => e.type === 'session_start');
+    const end = events.find(e => e.type === 'session_end');
+    return {
+      id,
+      clientId: start?.type === 'session_start' ? start.clientId : null,
+      startedAt: start?.ts ?? events[0]?.ts ?? null,
+      endedAt: end?.ts ?? null,
+      turns: events.filter(e => e.type === 'user' || e.type === 'assistant').length,
+      toolCalls: events.filter(e => e.type === 'tool_call').length,
+      events,
+    };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const file = this.fileFor(id);
+    if (!file || !existsSync(file)) return false;
+    await this.writes.get(id);
+    this.writes.delete(id);
+    await unlink(file);
+    return true;
+  }
+}
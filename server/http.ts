@@ -0,0 +1,128 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { logger } from './logger';
+
+/**
+ * HTTP ROUTING
+ * Minimal router for the gateway's HTTP endpoints. The WebSocket server shares
+ * the same port; only plain requests end up here.
+ */
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export type RouteParams = Record<string, string>;
+export type RouteHandler = (req: IncomingMessage, res: ServerResponse, params: RouteParams) => unknown;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+// Request bodies larger than this are rejected
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+export const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+
+export const readJsonBody = async (req: IncomingMessage): Promise<any> => {
+  const raw = await readBody(req);
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    throw new HttpError(400, 'Body is not valid JSON');
+  }
+};
+
+// Throws 401 unless the request carries `Authorization: Bearer <token>` matching one of `tokens`
+export const requireBearer = (req: IncomingMessage, tokens: string[]) => {
+  const header = req.headers.authorization || '';
+  const given = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+  const ok = tokens.some(token => {
+    const expected = Buffer.from(token);
+    return expected.length > 0 && expected.length === given.length && timingSafeEqual(expected, given);
+  });
+  if (!ok) throw new HttpError(401, 'Unauthorized');
+};
+
+export class HttpRouter {
+  private routes: Route[] = [];
+
+  // `path` may contain `:name` segments, e.g. /api/conversations/:id
+  add(method: string, path: string, handler: RouteHandler): this {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, handler });
+    return this;
+  }
+
+  get(path: string, handler: RouteHandler) { return this.add('GET', path, handler); }
+  post(path: string, handler: RouteHandler) { return this.add('POST', path, handler); }
+  put(path: string, handler: RouteHandler) { return this.add('PUT', path, handler); }
+  delete(path: string, handler: RouteHandler) { return this.add('DELETE', path, handler); }
+
+  handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+    let pathMatched = false;
+    for (const route of this.routes) {
+      const match = route.pattern.exec(pathname);
+      if (!match) continue;
+      pathMatched = true;
+      if (route.method !== req.method) continue;
+
+      try {
+        const params: RouteParams = {};
+        route.keys.forEach((key, i) => {
+          try {
+            params[key] = decodeURIComponent(match[i + 1]);
+          } catch {
+            throw new HttpError(400, `Malformed "${key}" in path`);
+          }
+        });
+        await route.handler(req, res, params);
+      } catch (err) {
+        if (res.headersSent) {
+          logger.error('HTTP request failed mid-response', { method: req.method, path: pathname, err });
+          res.end();
+        } else if (err instanceof HttpError) {
+          sendJson(res, err.status, { error: err.message });
+        } else {
+          logger.error('HTTP request failed', { method: req.method, path: pathname, err });
+          sendJson(res, 500, { error: 'Internal server error' });
+        }
+      }
+      return;
+    }
+
+    sendJson(res, pathMatched ? 405 : 404, { error: pathMatched ? 'Method not allowed' : 'Not found' });
+  };
+}
@@ -0,0 +1,13 @@
+import { signToken } from './auth';
+
+// Mint a client token for the gateway.
+// Usage: GATEWAY_AUTH_SECRETS=... npm run issue-token -- <client-id> [ttl-seconds]
+const [clientId, ttl = '86400'] = process.argv.slice(2);
+const secret = (process.env.GATEWAY_AUTH_SECRETS || '').split(',')[0]?.trim();
+
+if (!clientId || !secret) {
+  console.error('Usage: GATEWAY_AUTH_SECRETS=<secret> npm run issue-token -- <client-id> [ttl-seconds]');
+  process.exit(1);
+}
+
+console.log(signToken(clientId, secret, Number(ttl)));
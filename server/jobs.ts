@@ -0,0 +1,130 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { ToolConfig } from './tools';
+
+/**
+ * ASYNC AUTOMATIONS
+ * Tools marked `async` don't hold up the model while n8n works. The webhook is
+ * called with three extra headers:
+ *
+ *   X-Nexora-Job-Id:       <job id>
+ *   X-Nexora-Callback-Url: <gateway>/callbacks/jobs/<job id>
+ *   X-Nexora-Job-Token:    <secret for this job>
+ *
+ * and its immediate answer only means "started". When the workflow is done it
+ * POSTs { "result": ... } or { "error": "..." } to the callback URL with
+ * `Authorization: Bearer <job token>`. Jobs live in memory: a gateway restart
+ * forgets them and their callbacks get a 404.
+ */
+
+export interface AutomationJob {
+  id: string;
+  // Secret n8n presents on the callback
+  token: string;
+  callbackUrl: string;
+  sessionId: string;
+  clientId: string;
+  tool: string;
+  // The model's tool call that started the job
+  callId: string;
+  startedAt: number;
+  expiresAt: number;
+  timer: NodeJS.Timeout;
+}
+
+export type JobOutcome =
+  | { ok: true; result: unknown; error?: undefined }
+  | { ok: false; error: string; result?: undefined };
+
+export interface JobSettings {
+  // How long a job may run before it is reported as failed
+  timeoutMs: number;
+  // Base URL n8n can reach the gateway on, e.g. https://gateway.example.com
+  callbackBaseUrl: string;
+}
+
+// What the admin API shows about a running job
+export interface JobSummary {
+  id: string;
+  sessionId: string;
+  clientId: string;
+  tool: string;
+  startedAt: string;
+  expiresAt: string;
+}
+
+export class JobRegistry {
+  private jobs = new Map<string, AutomationJob>();
+
+  constructor(private settings: JobSettings, private onExpire: (job: AutomationJob) => void) {}
+
+  // Applies to jobs started from now on
+  configure(settings: JobSettings) {
+    this.settings = settings;
+  }
+
+  create(sessionId: string, clientId: string, tool: ToolConfig, callId: string): AutomationJob {
+    const id = randomUUID();
+    const { timeoutMs, callbackBaseUrl } = this.settings;
+    const job: AutomationJob = {
+      id,
+      token: randomBytes(24).toString('base64url'),
+      callbackUrl: `${callbackBaseUrl.replace(/\/+$/, '')}/callbacks/jobs/${id}`,
+      sessionId,
+      clientId,
+      tool: tool.name,
+      callId,
+      startedAt: Date.now(),
+      expiresAt: Date.now() + timeoutMs,
+      timer: setTimeout(() => {
+        if (this.jobs.delete(id)) this.onExpire(job);
+      }, timeoutMs),
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  // Headers that tell the workflow where to report back
+  headersFor(job: AutomationJob): Record<string, string> {
+    return {
+      'X-Nexora-Job-Id': job.id,
+      'X-Nexora-Callback-Url': job.callbackUrl,
+      'X-Nexora-Job-Token': job.token,
+    };
+  }
+
+  get(id: string): AutomationJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  // Remove and return a running job; undefined if unknown, finished or expired
+  take(id: string): AutomationJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    clearTimeout(job.timer);
+    this.jobs.delete(id);
+    return job;
+  }
+
+  list(): JobSummary[] {
+    return Array.from(this.jobs.values()).map(job => ({
+      id: job.id,
+      sessionId: job.sessionId,
+      clientId: job.clientId,
+      tool: job.tool,
+      startedAt: new Date(job.startedAt).toISOString(),
+      expiresAt: new Date(job.expiresAt).toISOString(),
+    }));
+  }
+
+  get size(): number {
+    return this.jobs.size;
+  }
+}
+
+// Normalize a callback body: { "error": ... } means failure, anything else is the result
+export const parseJobOutcome = (body: Record<string, unknown>): JobOutcome => {
+  if (body.error !== undefined && body.error !== null) {
+    return { ok: false, error: typeof body.error === 'string' ? body.error : JSON.stringify(body.error) };
+  }
+  return { ok: true, result: body.result ?? null };
+};
@@ -0,0 +1,59 @@
+/**
+ * STRUCTURED LOGGING
+ * One JSON object per line: {"ts","level","msg",...fields}. Child loggers carry
+ * fixed fields (connection id, session id, client id) so every line about a
+ * conversation can be grepped or filtered by them in a log pipeline.
+ * LOG_LEVEL picks the minimum level (debug, info, warn, error; default info).
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  // A logger that adds `fields` to every line
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const envLevel = (process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+const MIN_LEVEL = LEVELS[envLevel] ?? LEVELS.info;
+
+// Errors don't survive JSON.stringify on their own
+const serialize = (value: unknown): unknown => {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack, cause: serialize((value as any).cause) };
+  }
+  return value;
+};
+
+const write = (level: LogLevel, msg: string, fields: LogFields) => {
+  if (LEVELS[level] < MIN_LEVEL) return;
+
+  const entry: LogFields = { ts: new Date().toISOString(), level, msg };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) entry[key] = serialize(value);
+  }
+
+  let line: string;
+  try {
+    line = JSON.stringify(entry);
+  } catch {
+    line = JSON.stringify({ ts: entry.ts, level, msg, note: 'fields not serializable' });
+  }
+  (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(line + '\n');
+};
+
+export const createLogger = (bindings: LogFields = {}): Logger => ({
+  debug: (msg, fields) => write('debug', msg, { ...bindings, ...fields }),
+  info: (msg, fields) => write('info', msg, { ...bindings, ...fields }),
+  warn: (msg, fields) => write('warn', msg, { ...bindings, ...fields }),
+  error: (msg, fields) => write('error', msg, { ...bindings, ...fields }),
+  child: (fields) => createLogger({ ...bindings, ...fields }),
+});
+
+export const logger = createLogger();
@@ -0,0 +1,170 @@
+import { readFileSync, existsSync } from 'fs';
+import { randomUUID } from 'crypto';
+import { ToolDeclaration } from './providers';
+import { logger } from './logger';
+import { writeJsonAtomic } from './files';
+
+/**
+ * LONG-TERM MEMORY
+ * Facts about the household ("Preferred temperature is 21°C", "The hallway
+ * lamp is called Bob") that outlive a session. The model adds and removes them
+ * with the built-in remember_fact / forget_fact tools, admins through the HTTP
+ * API. Each new model connection gets the stored facts appended to its system
+ * instruction, newest first, up to a size budget.
+ */
+
+export const MAX_FACT_LENGTH = 300;
+
+export const REMEMBER_FACT_TOOL: ToolDeclaration = {
+  name: 'remember_fact',
+  description:
+    'Store a lasting fact about the user or household (preferences, names, device nicknames) so it is known in future conversations. ' +
+    'Only store what the user wants remembered; one short fact per call.',
+  parameters: {
+    type: 'object',
+    properties: {
+      fact: {
+        type: 'string',
+        description: 'The fact as a short standalone sentence, e.g. "Preferred bedroom temperature is 19°C"',
+        minLength: 1,
+        maxLength: MAX_FACT_LENGTH,
+      },
+    },
+    required: ['fact'],
+  },
+};
+
+export const FORGET_FACT_TOOL: ToolDeclaration = {
+  name: 'forget_fact',
+  description: 'Delete a stored fact that is wrong or that the user asked to forget.',
+  parameters: {
+    type: 'object',
+    properties: {
+      factId: { type: 'string', description: 'The id shown in brackets before the fact in your instructions', pattern: '^[0-9a-f]{8}$' },
+    },
+    required: ['factId'],
+  },
+};
+
+export const MEMORY_TOOLS = [REMEMBER_FACT_TOOL, FORGET_FACT_TOOL];
+
+export interface MemoryFact {
+  id: string;
+  text: string;
+  // Who stored it: the model (with the client it was talking to) or an admin
+  source: 'model' | 'api';
+  clientId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MemorySettings {
+  // Facts kept at most; adding beyond it fails until some are forgotten
+  maxFacts: number;
+  // Characters of facts put into the system instruction
+  promptBudgetChars: number;
+}
+
+export class MemoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MemoryError';
+  }
+}
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+export class MemoryStore {
+  private facts: MemoryFact[] = [];
+
+  // `settings` is replaced on config reload
+  constructor(private path: string, public settings: MemorySettings) {
+    if (existsSync(path)) {
+      try {
+        this.facts = JSON.parse(readFileSync(path, 'utf-8'));
+      } catch (err) {
+        logger.error('Ignoring unreadable memory file', { path, err });
+      }
+    }
+  }
+
+  list(): MemoryFact[] {
+    return [...this.facts];
+  }
+
+  get(id: string): MemoryFact | undefined {
+    return this.facts.find(f => f.id === id);
+  }
+
+  // Store a fact; saying the same thing again refreshes the existing one
+  add(text: string, source: MemoryFact['source'], clientId?: string): MemoryFact {
+    const clean = this.validate(text);
+    const existing = this.facts.find(f => f.text.toLowerCase() === clean.toLowerCase());
+    if (existing) {
+      existing.updatedAt = new Date().toISOString();
+      this.save();
+      return existing;
+    }
+    if (this.facts.length >= this.settings.maxFacts) {
+      throw new MemoryError(`Memory is full (${this.settings.maxFacts} facts); forget something first`);
+    }
+
+    const now = new Date().toISOString();
+    const fact: MemoryFact = { id: randomUUID().slice(0, 8), text: clean, source, clientId, createdAt: now, updatedAt: now };
+    this.facts.push(fact);
+    this.save();
+    return fact;
+  }
+
+  update(id: string, text: string): MemoryFact | undefined {
+    const fact = this.get(id);
+    if (!fact) return undefined;
+    fact.text = this.validate(text);
+    fact.updatedAt = new Date().toISOString();
+    this.save();
+    return fact;
+  }
+
+  delete(id: string): boolean {
+    const before = this.facts.length;
+    this.facts = this.facts.filter(f => f.id !== id);
+    if (this.facts.length === before) return false;
+    this.save();
+    return true;
+  }
+
+  // Block appended to the system instruction; empty when nothing is stored
+  promptSection(): string {
+    const lines: string[] = [];
+    let used = 0;
+    const newestFirst = [...this.facts].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    for (const fact of newestFirst) {
+      const line = `- [${fact.id}] ${fact.text}`;
+      if (used + line.length > this.settings.promptBudgetChars) break;
+      lines.push(line);
+      used += line.length + 1;
+    }
+    if (lines.length === 0) return '';
+    return (
+      '\n\nThings you know about this household from earlier conversations ' +
+      `(use ${FORGET_FACT_TOOL.name} with the id in brackets to remove one that is wrong):\n` +
+      lines.join('\n')
+    );
+  }
+
+  private validate(text: string): string {
+    const clean = typeof text === 'string' ? normalize(text) : '';
+    if (!clean) throw new MemoryError('A fact must be a non-empty string');
+    if (clean.length > MAX_FACT_LENGTH) throw new MemoryError(`A fact must be at most ${MAX_FACT_LENGTH} characters`);
+    return clean;
+  }
+
+  // Facts change rarely, so every change is written straight away
+  private save() {
+    try {
+      writeJsonAtomic(this.path, this.facts);
+    } catch (err) {
+      logger.error('Failed to persist memory', { err });
+    }
+  }
+}
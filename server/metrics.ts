@@ -0,0 +1,164 @@
+/**
+ * METRICS
+ * A small Prometheus registry (counters, gauges, histograms with labels) and
+ * the gateway's metric set, rendered in the text exposition format on GET /metrics.
+ */
+
+type Labels = Record<string, string>;
+
+// Label values in the exposition format escape backslash, quote and newline
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const labelKey = (labels: Labels) =>
+  Object.keys(labels).sort().map(k => `${k}="${escapeLabel(labels[k])}"`).join(',');
+
+const formatSeries = (name: string, key: string, value: number) =>
+  `${name}${key ? `{${key}}` : ''} ${Number.isFinite(value) ? value : value > 0 ? '+Inf' : '-Inf'}`;
+
+interface Metric {
+  render(): string[];
+}
+
+export class Counter implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(private name: string, private help: string) {}
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    this.values.forEach((value, key) => lines.push(formatSeries(this.name, key, value)));
+    return lines;
+  }
+}
+
+export class Gauge implements Metric {
+  private values = new Map<string, number>();
+
+  // `collect` reads the value at scrape time instead of tracking it with set/inc/dec
+  constructor(private name: string, private help: string, private collect?: () => number) {}
+
+  set(value: number, labels: Labels = {}) {
+    this.values.set(labelKey(labels), value);
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  dec(labels: Labels = {}, value = 1) {
+    this.inc(labels, -value);
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+    if (this.collect) lines.push(formatSeries(this.name, '', this.collect()));
+    this.values.forEach((value, key) => lines.push(formatSeries(this.name, key, value)));
+    return lines;
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(private name: string, private help: string, private bounds: number[]) {}
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) series!.buckets[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.series.forEach(series => {
+      this.bounds.forEach((bound, i) => {
+        lines.push(formatSeries(`${this.name}_bucket`, labelKey({ ...series.labels, le: String(bound) }), series.buckets[i]));
+      });
+      lines.push(formatSeries(`${this.name}_bucket`, labelKey({ ...series.labels, le: '+Inf' }), series.count));
+      const key = labelKey(series.labels);
+      lines.push(formatSeries(`${this.name}_sum`, key, series.sum));
+      lines.push(formatSeries(`${this.name}_count`, key, series.count));
+    });
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string) {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect?: () => number) {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, bounds: number[]) {
+    return this.register(new Histogram(name, help, bounds));
+  }
+
+  render(): string {
+    return this.metrics.flatMap(m => m.render()).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+// Everything the gateway reports. Gauges for live state are wired up in gateway.ts.
+export class GatewayMetrics {
+  readonly registry = new MetricsRegistry();
+
+  readonly connections = this.registry.counter('nexora_connections_total', 'WebSocket connections accepted');
+  readonly sessionsStarted = this.registry.counter('nexora_sessions_started_total', 'Conversations opened, by whether they were resumed');
+  readonly audioFrames = this.registry.counter('nexora_audio_frames_total', 'Audio frames relayed, by direction (in = from client, out = from model)');
+  readonly videoFrames = this.registry.counter('nexora_video_frames_total', 'Camera/screen frames from clients, by source and outcome');
+  readonly toolCalls = this.registry.counter('nexora_tool_calls_total', 'Tool calls from the model, by tool and outcome');
+  readonly toolCallDuration = this.registry.histogram(
+    'nexora_tool_call_duration_seconds',
+    'Time to run a tool call, by tool and outcome',
+    LATENCY_BUCKETS
+  );
+  readonly n8nRequests = this.registry.counter('nexora_n8n_requests_total', 'Webhook calls to n8n, by outcome (ok or error category)');
+  readonly n8nAttempts = this.registry.counter('nexora_n8n_attempts_total', 'HTTP attempts made to n8n, including retries');
+  readonly timeToFirstAudio = this.registry.histogram(
+    'nexora_time_to_first_audio_seconds',
+    'Delay between the end of a user turn and the first audio frame of the reply',
+    LATENCY_BUCKETS
+  );
+  readonly jobsFinished = this.registry.counter(
+    'nexora_jobs_finished_total',
+    'Async automations finished, by tool, outcome (ok, error, expired) and delivery (session or stored)'
+  );
+  readonly announcements = this.registry.counter('nexora_announcements_total', 'Announcements pushed, by target kind (client, group, all)');
+  readonly limitHits = this.registry.counter('nexora_limit_hits_total', 'Usage limits enforced, by limit');
+  readonly upstreamReconnects = this.registry.counter('nexora_upstream_reconnects_total', 'Model connections re-established after a drop');
+}
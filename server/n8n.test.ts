@@ -0,0 +1,94 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { N8nClient } from './n8n';
+import { ToolConfig } from './tools';
+import { FakeN8n, startFakeN8n } from './test-utils';
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+describe('n8n client', () => {
+  let n8n: FakeN8n;
+  let client: N8nClient;
+
+  const tool = (path: string, extra: Partial<ToolConfig> = {}): ToolConfig => ({
+    name: path,
+    description: '',
+    parameters: { type: 'object', properties: {} },
+    webhookUrl: `${n8n.url}/webhook/${path}`,
+    ...extra,
+  });
+
+  beforeAll(async () => {
+    n8n = await startFakeN8n();
+    n8n.status('/webhook/broken', 500);
+    n8n.status('/webhook/bad-request', 400);
+  });
+
+  afterAll(async () => {
+    await n8n?.close();
+  });
+
+  beforeEach(() => {
+    // A new client per test starts with closed circuits
+    client = new N8nClient({ failureThreshold: 1, cooldownMs: 100 });
+    n8n.requests.length = 0;
+  });
+
+  it('retries idempotent tools on server errors', async () => {
+    const outcome = await client.call(tool('broken', { idempotent: true, retries: 1 }), {});
+    expect(outcome).toMatchObject({ ok: false, attempts: 2, error: { category: 'http', status: 500 } });
+    expect(n8n.requests.length).toBe(2);
+  });
+
+  it('does not retry client errors or count them against the circuit', async () => {
+    const outcome = await client.call(tool('bad-request', { idempotent: true }), {});
+    expect(outcome).toMatchObject({ ok: false, attempts: 1, error: { category: 'http', status: 400 } });
+
+    const next = await client.call(tool('lights'), {});
+    expect(next.ok).toBe(true);
+  });
+
+  it('opens the circuit at the failure threshold and closes it after a good trial', async () => {
+    await client.call(tool('broken'), {});
+    const rejected = await client.call(tool('lights'), {});
+    expect(rejected).toMatchObject({ ok: false, attempts: 0, error: { category: 'circuit_open' } });
+
+    await sleep(150);
+    expect((await client.call(tool('lights'), {})).ok).toBe(true);
+    expect((await client.call(tool('lights'), {})).ok).toBe(true);
+  });
+
+  it('lets a new trial through when the previous one was cancelled', async () => {
+    await client.call(tool('broken'), {});
+    await sleep(150);
+
+    // Cancelled during its retry backoff, after one failed attempt
+    const controller = new AbortController();
+    const trial = client.call(tool('broken', { idempotent: true }), {}, controller.signal);
+    await n8n.received(2);
+    controller.abort();
+    expect((await trial).error?.category).toBe('cancelled');
+
+    expect((await client.call(tool('lights'), {})).ok).toBe(true);
+  });
+
+  it('keeps the trial exclusive when an earlier call fails during it', async () => {
+    n8n.delay('/webhook/slow-broken', 500);
+    n8n.status('/webhook/slow-broken', 500);
+    n8n.delay('/webhook/slow', 1200);
+
+    // Started while the circuit was closed, so it is not the trial
+    const earlier = client.call(tool('slow-broken'), {});
+    await client.call(tool('broken'), {});
+    await sleep(150);
+    const trial = client.call(tool('slow'), {});
+
+    expect((await earlier).ok).toBe(false);
+    // Past the cooldown that failure restarted, with the trial still running
+    await sleep(150);
+    const during = await client.call(tool('lights'), {});
+    expect(during.error?.category).toBe('circuit_open');
+
+    expect((await trial).ok).toBe(true);
+    expect((await client.call(tool('lights'), {})).ok).toBe(true);
+  });
+});
@@ -0,0 +1,219 @@
+import { createHmac } from 'crypto';
+import { ToolConfig } from './tools';
+import { logger } from './logger';
+
+/**
+ * N8N CLIENT
+ * Calls tool webhooks with a timeout, retries idempotent tools on transient
+ * failures, and trips a circuit breaker per n8n origin so the model hears
+ * "automation service unavailable" straight away instead of waiting on
+ * timeouts.
+ *
+ * When a signing secret is configured every request carries
+ *   X-Nexora-Timestamp: <unix seconds>
+ *   X-Nexora-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ * which an n8n Code node can recompute to reject forged or replayed calls.
+ */
+
+export type ToolErrorCategory =
+  | 'timeout'           // No response within the tool's timeout
+  | 'network'           // Connection refused, DNS, TLS...
+  | 'http'              // n8n answered with a non-2xx status
+  | 'invalid_response'  // 2xx but the body could not be read
+  | 'circuit_open'      // Too many recent failures; n8n not called at all
+  | 'config'            // The tool's webhook URL is missing or invalid
+  | 'cancelled';        // The caller gave up (e.g. session ended)
+
+export interface ToolError {
+  category: ToolErrorCategory;
+  status?: number;
+  message: string;
+}
+
+type AttemptResult =
+  | { ok: true; status: number; result: unknown; error?: undefined }
+  | { ok: false; error: ToolError; result?: undefined };
+
+export type ToolOutcome = AttemptResult & { attempts: number };
+
+export interface N8nClientOptions {
+  signingSecret?: string;
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit rejects calls before letting one trial through
+  cooldownMs: number;
+}
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 10000;
+const RETRY_BASE_MS = 300;
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+interface Circuit {
+  failures: number;
+  openedAt: number | null;
+  // A half-open circuit lets exactly one trial request through
+  trialInFlight: boolean;
+}
+
+// Failures worth retrying for idempotent tools
+const isTransient = (error: ToolError) =>
+  error.category === 'timeout' ||
+  error.category === 'network' ||
+  (error.category === 'http' && (error.status === 429 || (error.status ?? 0) >= 500));
+
+export class N8nClient {
+  private circuits = new Map<string, Circuit>();
+
+  constructor(private options: N8nClientOptions) {}
+
+  // Breaker thresholds can change on config reload; circuit state is kept
+  configure(options: Partial<N8nClientOptions>) {
+    this.options = { ...this.options, ...options };
+  }
+
+  // `headers` are added to this call only (e.g. the callback details of an async job)
+  async call(tool: ToolConfig, args: unknown, signal?: AbortSignal, headers: Record<string, string> = {}): Promise<ToolOutcome> {
+    let origin: string;
+    try {
+      origin = new URL(tool.webhookUrl).origin;
+    } catch {
+      return { ok: false, attempts: 0, error: { category: 'config', message: `Webhook for ${tool.name} is not configured` } };
+    }
+    const circuit = this.circuitFor(origin);
+    // A call let through an open circuit is its trial, and must release it however it ends
+    const trial = circuit.openedAt !== null;
+
+    if (!this.allowRequest(circuit)) {
+      return {
+        ok: false,
+        attempts: 0,
+        error: { category: 'circuit_open', message: 'The automation service is currently unavailable' },
+      };
+    }
+
+    try {
+      const maxAttempts = 1 + (tool.idempotent ? tool.retries ?? 2 : 0);
+      let lastError: ToolError | null = null;
+      let attempts = 0;
+
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        if (attempt > 1) {
+          // Exponential backoff with jitter
+          await sleep(RETRY_BASE_MS * 2 ** (attempt - 2) * (0.5 + Math.random()));
+        }
+        if (signal?.aborted) {
+          return { ok: false, attempts: attempt - 1, error: { category: 'cancelled', message: 'Call was cancelled' } };
+        }
+
+        attempts = attempt;
+        const outcome = await this.attempt(tool, args, signal, headers);
+        if (outcome.ok) {
+          this.recordSuccess(circuit);
+          return { ...outcome, attempts: attempt };
+        }
+
+        lastError = outcome.error;
+        if (lastError.category === 'cancelled' || !isTransient(lastError)) break;
+        logger.warn('n8n attempt failed', { tool: tool.name, attempt, maxAttempts, error: lastError });
+      }
+
+      // Client errors (4xx) mean a bad request, not an unhealthy n8n
+      if (lastError && isTransient(lastError)) this.recordFailure(origin, circuit);
+
+      return { ok: false, attempts, error: lastError! };
+    } finally {
+      if (trial) circuit.trialInFlight = false;
+    }
+  }
+
+  private async attempt(
+    tool: ToolConfig,
+    args: unknown,
+    signal: AbortSignal | undefined,
+    headers: Record<string, string>
+  ): Promise<AttemptResult> {
+    const body = JSON.stringify(args ?? {});
+    const timeoutMs = tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const combined = signal ? AbortSignal.any([signal, timeout]) : timeout;
+
+    let response: Response;
+    try {
+      response = await fetch(tool.webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...tool.headers, ...headers, ...this.sign(body) },
+        body,
+        signal: combined,
+      });
+    } catch (err: any) {
+      if (signal?.aborted) return { ok: false, error: { category: 'cancelled', message: 'Call was cancelled' } };
+      if (timeout.aborted) return { ok: false, error: { category: 'timeout', message: `No response within ${timeoutMs}ms` } };
+      return { ok: false, error: { category: 'network', message: err?.cause?.message || err?.message || 'Network error' } };
+    }
+
+    let text: string;
+    try {
+      text = await response.text();
+    } catch (err: any) {
+      return { ok: false, error: { category: 'invalid_response', status: response.status, message: 'Could not read response body' } };
+    }
+
+    if (!response.ok) {
+      return {
+        ok: false,
+        error: { category: 'http', status: response.status, message: text.slice(0, 200) || response.statusText },
+      };
+    }
+
+    // n8n may answer with JSON, plain text or nothing at all
+    const contentType = response.headers.get('content-type') || '';
+    if (!text) return { ok: true, status: response.status, result: null };
+    if (contentType.includes('application/json')) {
+      try {
+        return { ok: true, status: response.status, result: JSON.parse(text) };
+      } catch {
+        return { ok: false, error: { category: 'invalid_response', status: response.status, message: 'Response is not valid JSON' } };
+      }
+    }
+    return { ok: true, status: response.status, result: { text } };
+  }
+
+  private sign(body: string): Record<string, string> {
+    const secret = this.options.signingSecret;
+    if (!secret) return {};
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return { 'X-Nexora-Timestamp': timestamp, 'X-Nexora-Signature': `sha256=${signature}` };
+  }
+
+  private circuitFor(origin: string): Circuit {
+    let circuit = this.circuits.get(origin);
+    if (!circuit) {
+      circuit = { failures: 0, openedAt: null, trialInFlight: false };
+      this.circuits.set(origin, circuit);
+    }
+    return circuit;
+  }
+
+  private allowRequest(circuit: Circuit): boolean {
+    if (circuit.openedAt === null) return true;
+    if (Date.now() - circuit.openedAt < this.options.cooldownMs || circuit.trialInFlight) return false;
+    circuit.trialInFlight = true;
+    return true;
+  }
+
+  // Only the trial call clears `trialInFlight` (in `call`); others finishing meanwhile must not start a second trial
+  private recordSuccess(circuit: Circuit) {
+    circuit.failures = 0;
+    circuit.openedAt = null;
+  }
+
+  private recordFailure(origin: string, circuit: Circuit) {
+    circuit.failures++;
+    if (circuit.openedAt !== null || circuit.failures >= this.options.failureThreshold) {
+      if (circuit.openedAt === null) logger.error('n8n circuit opened', { origin });
+      circuit.openedAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { readFileSync, existsSync } from 'fs';
+import { randomUUID } from 'crypto';
+import { logger } from './logger';
+import { writeJsonAtomic } from './files';
+
+/**
+ * NOTIFICATIONS
+ * Results that arrived when nobody was there to hear them, e.g. an async
+ * automation finishing after its session ended. They are kept per client in a
+ * JSON file and handed to that client's next session.
+ */
+
+export interface Notification {
+  id: string;
+  clientId: string;
+  createdAt: string;
+  // What produced it, e.g. the tool of an async job
+  source: string;
+  jobId?: string;
+  result?: unknown;
+  error?: string;
+}
+
+const RETAIN_DAYS = 7;
+
+export class NotificationStore {
+  private notifications: Notification[] = [];
+
+  constructor(private path: string) {
+    if (existsSync(path)) {
+      try {
+        this.notifications = JSON.parse(readFileSync(path, 'utf-8'));
+      } catch (err) {
+        logger.error('Ignoring unreadable notifications file', { path, err });
+      }
+    }
+  }
+
+  add(notification: Omit<Notification, 'id' | 'createdAt'>): Notification {
+    const stored: Notification = { id: randomUUID(), createdAt: new Date().toISOString(), ...notification };
+    this.notifications.push(stored);
+    this.save();
+    return stored;
+  }
+
+  list(clientId?: string): Notification[] {
+    return this.notifications.filter(n => !clientId || n.clientId === clientId);
+  }
+
+  // Remove and return everything waiting for a client, oldest first
+  take(clientId: string): Notification[] {
+    const taken = this.list(clientId);
+    if (taken.length === 0) return [];
+    this.notifications = this.notifications.filter(n => n.clientId !== clientId);
+    this.save();
+    return taken;
+  }
+
+  delete(id: string): boolean {
+    const before = this.notifications.length;
+    this.notifications = this.notifications.filter(n => n.id !== id);
+    if (this.notifications.length === before) return false;
+    this.save();
+    return true;
+  }
+
+  // Notifications are rare, so every change is written straight away
+  private save() {
+    const cutoff = new Date(Date.now() - RETAIN_DAYS * 86400000).toISOString();
+    this.notifications = this.notifications.filter(n => n.createdAt >= cutoff);
+
+    try {
+      writeJsonAtomic(this.path, this.notifications);
+    } catch (err) {
+      logger.error('Failed to persist notifications', { err });
+    }
+  }
+}
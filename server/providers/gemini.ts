@@ -0,0 +1,130 @@
+import { GoogleGenAI, LiveServerMessage } from '@google/genai';
+import { ModelConnection, ModelProvider, ProviderCallbacks, ProviderConnectOptions, TranscriptRole } from './types';
+
+// Utterances whose transcription is still streaming, so they can be closed exactly once
+type OpenTranscripts = Record<TranscriptRole, boolean>;
+
+// Gemini Live API adapter
+export class GeminiLiveProvider implements ModelProvider {
+  readonly name = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, private model: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async connect(options: ProviderConnectOptions, callbacks: ProviderCallbacks): Promise<ModelConnection> {
+    const open: OpenTranscripts = { user: false, assistant: false };
+    const session = await this.ai.live.connect({
+      model: this.model,
+      config: {
+        tools: [{
+          functionDeclarations: options.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parametersJsonSchema: tool.parameters,
+          })),
+        }],
+        systemInstruction: options.systemInstruction,
+        speechConfig: {
+          languageCode: options.language,
+          voiceConfig: options.voice ? { prebuiltVoiceConfig: { voiceName: options.voice } } : undefined,
+        },
+        // Captions for both directions
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        sessionResumption: { handle: options.resumeHandle },
+      },
+      callbacks: {
+        onopen: () => {
+          options.log.info('Connected to Gemini', { model: this.model, resumed: !!options.resumeHandle });
+          callbacks.onOpen?.();
+        },
+        onmessage: (msg: LiveServerMessage) => this.dispatch(msg, callbacks, open),
+        onclose: (e) => {
+          options.log.info('Gemini disconnected', { code: e?.code, reason: e?.reason });
+          callbacks.onClose(e?.reason);
+        },
+        onerror: (err) => {
+          options.log.error('Gemini error', { err });
+          callbacks.onError?.(err);
+        }
+      }
+    });
+
+    return {
+      sendAudio: (data) => session.sendRealtimeInput({ audio: { mimeType: 'audio/pcm;rate=16000', data } }),
+      sendImage: (data, mimeType) => session.sendRealtimeInput({ video: { mimeType, data } }),
+      sendToolResponse: (responses) => session.sendToolResponse({ functionResponses: responses }),
+      sendText: (text) => session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true }),
+      close: () => session.close(),
+    };
+  }
+
+  private dispatch(msg: LiveServerMessage, callbacks: ProviderCallbacks, open: OpenTranscripts) {
+    const content = msg.serverContent;
+
+    // 0. Track the latest resumption handle
+    const update = msg.sessionResumptionUpdate;
+    if (update?.resumable && update.newHandle) {
+      callbacks.onResumeHandle?.(update.newHandle);
+    }
+
+    // 1. What the user said (input transcription)
+    const heard = content?.inputTranscription;
+    if (heard?.text) {
+      open.user = true;
+      callbacks.onTranscript?.('user', heard.text, false);
+    }
+    // The user's turn is over once the model answers, even without `finished`
+    if (heard?.finished || content?.modelTurn || content?.outputTranscription) {
+      this.closeTranscript('user', callbacks, open);
+    }
+
+    // 2. Handle Audio Output and text parts, in order
+    for (const part of content?.modelTurn?.parts ?? []) {
+      if (part.inlineData?.data) callbacks.onAudio(part.inlineData.data);
+      // Thoughts are not meant for the user
+      if (part.text && !part.thought) callbacks.onText(part.text);
+    }
+
+    // 3. What the model is saying (output transcription)
+    const said = content?.outputTranscription;
+    if (said?.text) {
+      open.assistant = true;
+      callbacks.onTranscript?.('assistant', said.text, false);
+    }
+    if (said?.finished || content?.turnComplete || content?.interrupted) {
+      this.closeTranscript('assistant', callbacks, open);
+    }
+
+    // 4. Handle Tool Calls
+    if (msg.toolCall?.functionCalls?.length) {
+      callbacks.onToolCall(msg.toolCall.functionCalls.map(call => ({
+        id: call.id ?? '',
+        name: call.name ?? '',
+        args: call.args ?? {},
+      })));
+    }
+
+    if (msg.toolCallCancellation?.ids?.length) {
+      callbacks.onToolCallCancellation?.(msg.toolCallCancellation.ids);
+    }
+
+    // 5. Handle Interruption
+    if (content?.interrupted) {
+      callbacks.onInterrupted();
+    }
+
+    // 6. End of the model's turn
+    if (content?.turnComplete) {
+      callbacks.onTurnComplete?.();
+    }
+  }
+
+  private closeTranscript(role: TranscriptRole, callbacks: ProviderCallbacks, open: OpenTranscripts) {
+    if (!open[role]) return;
+    open[role] = false;
+    callbacks.onTranscript?.(role, '', true);
+  }
+}
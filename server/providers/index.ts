@@ -0,0 +1,26 @@
+import { ModelProvider } from './types';
+import { GeminiLiveProvider } from './gemini';
+import { MockProvider, loadMockScript } from './mock';
+
+export * from './types';
+
+export interface ProviderSettings {
+  // 'gemini' (default) or 'mock'
+  provider: string;
+  apiKey: string;
+  model: string;
+  // JSON script for the mock provider; the built-in demo script when unset
+  mockScript?: string;
+}
+
+export const createProvider = (settings: ProviderSettings): ModelProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      if (!settings.apiKey) throw new Error('API_KEY must be set for the gemini provider');
+      return new GeminiLiveProvider(settings.apiKey, settings.model);
+    case 'mock':
+      return new MockProvider(settings.mockScript ? loadMockScript(settings.mockScript) : undefined);
+    default:
+      throw new Error(`Unknown model provider: ${settings.provider}`);
+  }
+};
@@ -0,0 +1,264 @@
+import { readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import {
+  ModelConnection,
+  ModelProvider,
+  ModelToolResponse,
+  ProviderCallbacks,
+  ProviderConnectOptions,
+  TranscriptRole,
+} from './types';
+
+/**
+ * SCRIPTED MOCK PROVIDER
+ * Replays canned audio, text and tool calls so the gateway runs without network
+ * access or an API key. A script is a list of turns: `connect` turns play as
+ * soon as the session opens, `speech` turns play once the client has streamed
+ * `speechMs` of audio (i.e. "the user said something").
+ */
+
+export type MockStep =
+  | { type: 'text'; text: string }
+  // A sine tone (stand-in for speech) or a PCM16 24 kHz file (.pcm, or .wav with a 44 byte header)
+  | { type: 'audio'; ms?: number; toneHz?: number; file?: string }
+  // Waits for the gateway's tool response before moving on. A string arg of the form
+  // "$response.<key>" is filled from the previous tool response (e.g. a confirmationId)
+  | { type: 'toolCall'; name: string; args?: Record<string, unknown> }
+  // Several calls in one batch, like Gemini's parallel function calls. With `cancelAfterMs`,
+  // calls still unanswered by then are cancelled (as when the user interrupts) and not waited for.
+  | { type: 'toolCalls'; calls: { name: string; args?: Record<string, unknown> }[]; cancelAfterMs?: number }
+  // A caption, streamed word by word and then marked final
+  | { type: 'transcript'; role: TranscriptRole; text: string }
+  | { type: 'interrupted' }
+  | { type: 'wait'; ms: number };
+
+export interface MockTurn {
+  trigger: 'connect' | 'speech';
+  // Inbound audio needed before a `speech` turn fires (default 1000)
+  speechMs?: number;
+  steps: MockStep[];
+}
+
+export interface MockScript {
+  turns: MockTurn[];
+  // Start over from the first `speech` turn when the script runs out
+  loop?: boolean;
+}
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const INPUT_BYTES_PER_MS = 16000 * 2 / 1000;
+const AUDIO_CHUNK_MS = 100;
+const TOOL_RESPONSE_TIMEOUT_MS = 30000;
+const TRANSCRIPT_WORD_MS = 60;
+
+export const DEFAULT_MOCK_SCRIPT: MockScript = {
+  loop: true,
+  turns: [
+    {
+      trigger: 'connect',
+      steps: [
+        { type: 'transcript', role: 'assistant', text: 'Hi, this is the offline mock assistant.' },
+        { type: 'audio', ms: 600, toneHz: 440 },
+      ],
+    },
+    {
+      trigger: 'speech',
+      steps: [
+        { type: 'transcript', role: 'user', text: 'Turn on the lights please' },
+        { type: 'transcript', role: 'assistant', text: "Sure, I'll turn on the lights." },
+        { type: 'audio', ms: 500, toneHz: 523 },
+        { type: 'toolCall', name: 'trigger_automation', args: { action: 'turn_lights_on' } },
+        { type: 'transcript', role: 'assistant', text: 'Done, the lights are on.' },
+        { type: 'audio', ms: 500, toneHz: 659 },
+      ],
+    },
+  ],
+};
+
+export const loadMockScript = (path: string): MockScript => {
+  const script = JSON.parse(readFileSync(path, 'utf-8')) as MockScript;
+  if (!Array.isArray(script?.turns)) {
+    throw new Error(`${path}: expected a "turns" array`);
+  }
+  // Audio files are relative to the script
+  for (const turn of script.turns) {
+    for (const step of turn.steps) {
+      if (step.type === 'audio' && step.file) step.file = resolve(dirname(path), step.file);
+    }
+  }
+  return script;
+};
+
+const tonePcm = (ms: number, hz: number): Buffer => {
+  const samples = Math.round(OUTPUT_SAMPLE_RATE * ms / 1000);
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const envelope = Math.min(1, i / 480, (samples - i) / 480); // 20 ms fade in/out
+    pcm.writeInt16LE(Math.round(Math.sin(2 * Math.PI * hz * i / OUTPUT_SAMPLE_RATE) * 0.3 * envelope * 0x7fff), i * 2);
+  }
+  return pcm;
+};
+
+const filePcm = (path: string): Buffer => {
+  const data = readFileSync(path);
+  return data.subarray(0, 4).toString('ascii') === 'RIFF' ? data.subarray(44) : data;
+};
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+const fillArgs = (args: Record<string, unknown>, previous: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(args).map(([key, value]) => {
+      const match = typeof value === 'string' && /^\$response\.(\w+)$/.exec(value);
+      return [key, match ? previous[match[1]] : value];
+    })
+  );
+
+export class MockProvider implements ModelProvider {
+  readonly name = 'mock';
+
+  constructor(private script: MockScript = DEFAULT_MOCK_SCRIPT) {}
+
+  async connect(options: ProviderConnectOptions, callbacks: ProviderCallbacks): Promise<ModelConnection> {
+    const script = this.script;
+    const speechTurns = script.turns.filter(t => t.trigger === 'speech');
+    let nextSpeechTurn = 0;
+    let heardMs = 0;
+    let running = false;
+    let closed = false;
+    // Resolved with null when the session closes before the gateway answers
+    const pendingTools = new Map<string, (response: ModelToolResponse | null) => void>();
+    let callCounter = 0;
+    let lastResponse: Record<string, unknown> = {};
+
+    const runTurn = async (turn: MockTurn) => {
+      running = true;
+      try {
+        for (const step of turn.steps) {
+          if (closed) return;
+          switch (step.type) {
+            case 'text':
+              callbacks.onText(step.text);
+              break;
+            case 'audio': {
+              const pcm = step.file ? filePcm(step.file) : tonePcm(step.ms ?? 500, step.toneHz ?? 440);
+              const chunkBytes = OUTPUT_SAMPLE_RATE * 2 * AUDIO_CHUNK_MS / 1000;
+              for (let offset = 0; offset < pcm.length; offset += chunkBytes) {
+                callbacks.onAudio(pcm.subarray(offset, offset + chunkBytes).toString('base64'));
+              }
+              break;
+            }
+            case 'toolCall': {
+              const id = `mock-call-${++callCounter}`;
+              const response = new Promise<ModelToolResponse | null>(res => {
+                pendingTools.set(id, res);
+                setTimeout(() => res(null), TOOL_RESPONSE_TIMEOUT_MS);
+              });
+              callbacks.onToolCall([{ id, name: step.name, args: fillArgs(step.args ?? {}, lastResponse) }]);
+              const result = await response;
+              pendingTools.delete(id);
+              if (!result) options.log.warn('Mock provider: no tool response', { tool: step.name, callId: id });
+              lastResponse = result?.response ?? {};
+              break;
+            }
+            case 'toolCalls': {
+              const calls = step.calls.map(call => ({
+                id: `mock-call-${++callCounter}`,
+                name: call.name,
+                args: fillArgs(call.args ?? {}, lastResponse),
+              }));
+              const answered = new Set<string>();
+              const responses = calls.map(call => new Promise<ModelToolResponse | null>(res => {
+                pendingTools.set(call.id, response => {
+                  answered.add(call.id);
+                  res(response);
+                });
+                setTimeout(() => res(null), step.cancelAfterMs ?? TOOL_RESPONSE_TIMEOUT_MS);
+              }));
+              callbacks.onToolCall(calls);
+              if (step.cancelAfterMs !== undefined) {
+                await sleep(step.cancelAfterMs);
+                const cancelled = calls.filter(call => !answered.has(call.id)).map(call => call.id);
+                cancelled.forEach(id => pendingTools.delete(id));
+                if (cancelled.length) callbacks.onToolCallCancellation?.(cancelled);
+              }
+              const results = await Promise.all(responses);
+              calls.forEach(call => pendingTools.delete(call.id));
+              const last = results.filter(Boolean).pop();
+              lastResponse = last?.response ?? {};
+              break;
+            }
+            case 'transcript':
+              for (const word of step.text.split(/(?<=\s)/)) {
+                callbacks.onTranscript?.(step.role, word, false);
+                await sleep(TRANSCRIPT_WORD_MS);
+              }
+              callbacks.onTranscript?.(step.role, '', true);
+              break;
+            case 'interrupted':
+              callbacks.onInterrupted();
+              break;
+            case 'wait':
+              await sleep(step.ms);
+              break;
+          }
+        }
+        if (!closed) callbacks.onTurnComplete?.();
+      } finally {
+        running = false;
+        heardMs = 0;
+      }
+    };
+
+    // Play greeting turns once the "connection" is up
+    setTimeout(async () => {
+      if (closed) return;
+      callbacks.onOpen?.();
+      for (const turn of script.turns.filter(t => t.trigger === 'connect')) {
+        await runTurn(turn);
+      }
+    }, 0);
+
+    options.log.info('Mock provider connected', { tools: options.tools.length, speechTurns: speechTurns.length });
+    options.log.debug('Mock provider: system instruction', { systemInstruction: options.systemInstruction });
+
+    const startSpeechTurn = () => {
+      const turn = speechTurns[nextSpeechTurn];
+      nextSpeechTurn++;
+      if (nextSpeechTurn >= speechTurns.length && script.loop) nextSpeechTurn = 0;
+      runTurn(turn).catch(err => callbacks.onError?.(err));
+    };
+
+    return {
+      sendAudio: (data) => {
+        if (closed || running) return;
+        const turn = speechTurns[nextSpeechTurn];
+        if (!turn) return;
+
+        heardMs += Buffer.byteLength(data, 'base64') / INPUT_BYTES_PER_MS;
+        if (heardMs < (turn.speechMs ?? 1000)) return;
+        startSpeechTurn();
+      },
+      // Frames are only logged; scripts don't react to what they show
+      sendImage: (data, mimeType) => {
+        if (!closed) options.log.debug('Mock provider: image', { mimeType, bytes: Buffer.byteLength(data, 'base64') });
+      },
+      // Text counts as a finished utterance
+      sendText: (text) => {
+        if (closed || running || !speechTurns[nextSpeechTurn]) return;
+        options.log.debug('Mock provider: text turn', { text: text.slice(0, 80) });
+        startSpeechTurn();
+      },
+      sendToolResponse: (responses) => {
+        options.log.debug('Mock provider: tool responses', { ids: responses.map(r => r.id) });
+        for (const response of responses) pendingTools.get(response.id)?.(response);
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        pendingTools.forEach(resolve => resolve(null));
+        callbacks.onClose('closed');
+      },
+    };
+  }
+}
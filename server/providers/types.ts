@@ -0,0 +1,76 @@
+import type { Logger } from '../logger';
+
+/**
+ * MODEL PROVIDER INTERFACE
+ * What AssistantSession needs from a realtime speech model. Gemini Live is one
+ * adapter; the scripted mock lets the whole pipeline run offline.
+ */
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  // JSON schema of the arguments
+  parameters: Record<string, unknown>;
+}
+
+export interface ModelToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ModelToolResponse {
+  id: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface ProviderConnectOptions {
+  systemInstruction: string;
+  tools: ToolDeclaration[];
+  // Opaque handle from a previous `onResumeHandle`, to continue that conversation
+  resumeHandle?: string;
+  // Prebuilt voice name and BCP-47 language; provider defaults when unset
+  voice?: string;
+  language?: string;
+  // Logger carrying the session's fields
+  log: Logger;
+}
+
+export type TranscriptRole = 'user' | 'assistant';
+
+export interface ProviderCallbacks {
+  onOpen?: () => void;
+  // base64 24 kHz mono PCM16
+  onAudio: (data: string) => void;
+  onText: (text: string) => void;
+  // Speech-to-text of either side, as chunks; `final` closes the current utterance (text may be empty then)
+  onTranscript?: (role: TranscriptRole, text: string, final: boolean) => void;
+  // Calls the model makes together; answer them with one sendToolResponse
+  onToolCall: (calls: ModelToolCall[]) => void;
+  // The model no longer wants these calls (e.g. the user interrupted); they must not be answered
+  onToolCallCancellation?: (ids: string[]) => void;
+  // The user barged in; anything already sent to the client should be dropped
+  onInterrupted: () => void;
+  // The model finished its turn; no more audio until the next one
+  onTurnComplete?: () => void;
+  onResumeHandle?: (handle: string) => void;
+  onClose: (reason?: string) => void;
+  onError?: (err: unknown) => void;
+}
+
+export interface ModelConnection {
+  // base64 16 kHz mono PCM16
+  sendAudio(data: string): void;
+  // base64 JPEG or PNG still from the user's camera or screen
+  sendImage(data: string, mimeType: string): void;
+  sendToolResponse(responses: ModelToolResponse[]): void;
+  // A complete user turn given as text (system notices, typed input)
+  sendText(text: string): void;
+  close(): void;
+}
+
+export interface ModelProvider {
+  readonly name: string;
+  connect(options: ProviderConnectOptions, callbacks: ProviderCallbacks): Promise<ModelConnection>;
+}
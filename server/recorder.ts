@@ -0,0 +1,169 @@
+import { mkdir, open, writeFile, appendFile, FileHandle } from 'fs/promises';
+import { join } from 'path';
+import { ConversationEvent } from './history';
+import { logger } from './logger';
+
+/**
+ * SESSION RECORDER
+ * Opt-in capture of one session for debugging and replay (server/replay.ts):
+ *
+ *   <dir>/<sessionId>/meta.json      who, which model and profile, when
+ *   <dir>/<sessionId>/input.wav      everything the client streamed (16 kHz mono PCM16)
+ *   <dir>/<sessionId>/output.wav     everything the model said (24 kHz mono PCM16)
+ *   <dir>/<sessionId>/events.jsonl   ordered events, `t` in ms since the session started
+ *
+ * `audio_in` events mark where each inbound chunk falls in time, so a replay
+ * can stream input.wav with the original pacing. `text_in` events are typed
+ * messages, replayed at the same offsets.
+ */
+
+export const INPUT_SAMPLE_RATE = 16000;
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+export type RecordedEvent =
+  | ConversationEvent
+  | { type: 'audio_in'; bytes: number }
+  | { type: 'text_in'; text: string }
+  | { type: 'video_frame'; source: string; bytes: number }
+  | { type: 'interrupt' }
+  | { type: 'confirm_response'; id: string; approved: boolean }
+  // What the browser answered to a client tool call
+  | { type: 'client_tool_result'; name: string; result?: unknown; error?: string; denied?: boolean }
+  // A tool call the client got to see: announced as executing, sent for confirmation, or handed to the browser.
+  // Memory tools and refused calls never show up here, so a replay compares these, not every `tool_call`.
+  | { type: 'tool_shown'; name: string; via: ToolShownVia };
+
+export type ToolShownVia = 'executing' | 'confirmation' | 'client';
+
+export type TimedEvent = RecordedEvent & { t: number };
+
+export interface RecordingMeta {
+  sessionId: string;
+  clientId: string;
+  provider: string;
+  model: string;
+  // Profile the session ran with; null for the top-level settings
+  profile: string | null;
+  startedAt: string;
+  endedAt?: string;
+  inputSampleRate: number;
+  outputSampleRate: number;
+}
+
+const WAV_HEADER_BYTES = 44;
+
+const wavHeader = (sampleRate: number, dataBytes: number): Buffer => {
+  const header = Buffer.alloc(WAV_HEADER_BYTES);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);             // fmt chunk size
+  header.writeUInt16LE(1, 20);              // PCM
+  header.writeUInt16LE(1, 22);              // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28); // byte rate
+  header.writeUInt16LE(2, 32);              // block align
+  header.writeUInt16LE(16, 34);             // bits per sample
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+};
+
+export const encodeWav = (pcm: Buffer, sampleRate: number): Buffer =>
+  Buffer.concat([wavHeader(sampleRate, pcm.length), pcm]);
+
+// PCM16 samples of a WAV written by this recorder (fixed 44 byte header)
+export const decodeWav = (wav: Buffer): Buffer => wav.subarray(WAV_HEADER_BYTES);
+
+// Streams PCM16 into a WAV file; the header sizes are filled in on close
+class WavWriter {
+  private handle: Promise<FileHandle>;
+  private bytes = 0;
+
+  constructor(path: string, private sampleRate: number) {
+    this.handle = open(path, 'w').then(async h => {
+      await h.write(wavHeader(sampleRate, 0), 0, WAV_HEADER_BYTES, 0);
+      return h;
+    });
+  }
+
+  async write(pcm: Buffer) {
+    const position = WAV_HEADER_BYTES + this.bytes;
+    this.bytes += pcm.length;
+    const handle = await this.handle;
+    await handle.write(pcm, 0, pcm.length, position);
+  }
+
+  async close() {
+    const handle = await this.handle;
+    await handle.write(wavHeader(this.sampleRate, this.bytes), 0, WAV_HEADER_BYTES, 0);
+    await handle.close();
+  }
+}
+
+export class SessionRecorder {
+  readonly dir: string;
+  private startedAt = Date.now();
+  // Opened once the directory exists; every use goes through the chain after that
+  private input: WavWriter;
+  private output: WavWriter;
+  // One chain keeps every write in order and lets close() wait for the lot
+  private chain: Promise<unknown>;
+  private closed = false;
+
+  constructor(root: string, private meta: Omit<RecordingMeta, 'startedAt' | 'inputSampleRate' | 'outputSampleRate'>) {
+    this.dir = join(root, meta.sessionId);
+    this.chain = mkdir(this.dir, { recursive: true }).then(() => {
+      this.input = new WavWriter(join(this.dir, 'input.wav'), INPUT_SAMPLE_RATE);
+      this.output = new WavWriter(join(this.dir, 'output.wav'), OUTPUT_SAMPLE_RATE);
+      return this.writeMeta();
+    });
+  }
+
+  inputAudio(base64: string) {
+    if (this.closed) return;
+    const pcm = Buffer.from(base64, 'base64');
+    this.event({ type: 'audio_in', bytes: pcm.length });
+    this.enqueue(() => this.input.write(pcm));
+  }
+
+  outputAudio(base64: string) {
+    if (this.closed) return;
+    const pcm = Buffer.from(base64, 'base64');
+    this.enqueue(() => this.output.write(pcm));
+  }
+
+  event(event: RecordedEvent) {
+    if (this.closed) return;
+    const line = JSON.stringify({ t: Date.now() - this.startedAt, ...event }) + '\n';
+    this.enqueue(() => appendFile(join(this.dir, 'events.jsonl'), line));
+  }
+
+  async close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.enqueue(async () => {
+      await Promise.all([this.input.close(), this.output.close()]);
+      await this.writeMeta(new Date().toISOString());
+    });
+    await this.chain;
+  }
+
+  private enqueue(task: () => Promise<unknown>) {
+    this.chain = this.chain
+      .then(task)
+      .catch(err => logger.error('Failed to write session recording', { sessionId: this.meta.sessionId, err }));
+  }
+
+  private writeMeta(endedAt?: string) {
+    const meta: RecordingMeta = {
+      ...this.meta,
+      startedAt: new Date(this.startedAt).toISOString(),
+      endedAt,
+      inputSampleRate: INPUT_SAMPLE_RATE,
+      outputSampleRate: OUTPUT_SAMPLE_RATE,
+    };
+    return writeFile(join(this.dir, 'meta.json'), JSON.stringify(meta, null, 2));
+  }
+}
@@ -0,0 +1,216 @@
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { WebSocket } from 'ws';
+import { PROTOCOL_VERSION, ClientMessage, encodeMessage, parseServerMessage } from '../shared/protocol';
+import { OUTPUT_SAMPLE_RATE, RecordingMeta, TimedEvent, ToolShownVia, decodeWav, encodeWav } from './recorder';
+
+// Feed a recorded session (server/recorder.ts) back through a running gateway
+// and compare what happens with what happened. Point it at a gateway running
+// the real provider, or MODEL_PROVIDER=mock with a script, to regression-test
+// prompts and tools.
+//
+// Usage: npm run replay -- <recording-dir> [--url ws://localhost:8080] [--token <client token>]
+//          [--speed 1] [--tail-ms 5000] [--out <dir>] [--strict]
+// --out writes the new output.wav and the received frames; --strict exits 1 when the tool calls differ.
+
+const USAGE = 'Usage: npm run replay -- <recording-dir> [--url ws://...] [--token <token>] [--speed 1] [--tail-ms 5000] [--out <dir>] [--strict]';
+
+const parseArgs = (argv: string[]) => {
+  const options = { dir: '', url: 'ws://localhost:8080', token: process.env.GATEWAY_TOKEN || '', speed: 1, tailMs: 5000, out: '', strict: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--url': options.url = argv[++i]; break;
+      case '--token': options.token = argv[++i]; break;
+      case '--speed': options.speed = Number(argv[++i]); break;
+      case '--tail-ms': options.tailMs = Number(argv[++i]); break;
+      case '--out': options.out = argv[++i]; break;
+      case '--strict': options.strict = true; break;
+      default:
+        if (arg.startsWith('--') || options.dir) throw new Error(`Unexpected argument: ${arg}`);
+        options.dir = arg;
+    }
+  }
+  if (!options.dir || !(options.speed > 0)) throw new Error(USAGE);
+  return options;
+};
+
+const loadRecording = (dir: string) => {
+  const meta: RecordingMeta = JSON.parse(readFileSync(join(dir, 'meta.json'), 'utf-8'));
+  const events: TimedEvent[] = readFileSync(join(dir, 'events.jsonl'), 'utf-8')
+    .split('\n')
+    .filter(Boolean)
+    .map(line => JSON.parse(line));
+  const input = decodeWav(readFileSync(join(dir, 'input.wav')));
+  return { meta, events, input };
+};
+
+// Narrows recorded events to the given types
+const isEvent = <T extends TimedEvent['type']>(...types: T[]) =>
+  (event: TimedEvent): event is Extract<TimedEvent, { type: T }> => (types as string[]).includes(event.type);
+
+interface ShownTool {
+  name: string;
+  via: ToolShownVia;
+}
+
+// Tool names in the order the client saw them. A confirmed call shows up twice
+// (confirmation request, then execution) and is counted once.
+const countTools = (shown: ShownTool[]): string[] => {
+  const tools: string[] = [];
+  const confirming: string[] = [];
+  for (const { name, via } of shown) {
+    const pending = via === 'executing' ? confirming.indexOf(name) : -1;
+    if (pending >= 0) {
+      confirming.splice(pending, 1);
+      continue;
+    }
+    if (via === 'confirmation') confirming.push(name);
+    tools.push(name);
+  }
+  return tools;
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const { meta, events, input } = loadRecording(options.dir);
+  const profile = meta.profile ? `, profile ${meta.profile}` : '';
+  console.log(`Replaying ${meta.sessionId} (${meta.provider}/${meta.model}${profile}, ${meta.startedAt}) against ${options.url}`);
+
+  // What the original session did. Only calls the client saw count: memory tools and refused calls can't be observed.
+  const recordedTools = countTools(events.filter(isEvent('tool_shown')));
+  const recordedLines = events.filter(isEvent('user', 'assistant')).map(e => `${e.type}: ${e.text}`);
+  const confirmAnswers = events.filter(isEvent('confirm_response')).map(e => e.approved);
+  // What the browser answered to client tools, in order
+  const clientResults = events.filter(isEvent('client_tool_result'));
+
+  // What happens now. The client only sees tools by name: "Executing: <name>", confirmation requests and client tool calls.
+  const shownTools: ShownTool[] = [];
+  const observedLines: string[] = [];
+  const frames: unknown[] = [];
+  const output: Buffer[] = [];
+
+  const ws = new WebSocket(options.url);
+  const send = (msg: ClientMessage) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(encodeMessage(msg));
+  };
+
+  const finished = new Promise<void>((resolve, reject) => {
+    let timers: NodeJS.Timeout[] = [];
+
+    const streamInput = () => {
+      // Each chunk and typed message goes out at its recorded offset from the start of the session
+      let offset = 0;
+      let lastAt = 0;
+      for (const event of events) {
+        if (event.type === 'text_in') {
+          lastAt = event.t / options.speed;
+          timers.push(setTimeout(() => send({ type: 'text', text: event.text }), lastAt));
+          continue;
+        }
+        if (event.type !== 'audio_in') continue;
+        const chunk = input.subarray(offset, offset + event.bytes);
+        offset += event.bytes;
+        lastAt = event.t / options.speed;
+        timers.push(setTimeout(() => send({ type: 'audio', data: chunk.toString('base64') }), lastAt));
+      }
+      timers.push(setTimeout(() => ws.close(1000, 'Replay finished'), lastAt + options.tailMs));
+    };
+
+    // The same profile, so the replay gets the same instructions and tools (older recordings have none)
+    ws.on('open', () => send({
+      type: 'hello',
+      version: PROTOCOL_VERSION,
+      authToken: options.token || undefined,
+      profile: meta.profile ?? undefined,
+    }));
+    ws.on('message', (data) => {
+      const parsed = parseServerMessage(data.toString());
+      if (!parsed.ok) {
+        console.warn('Invalid frame from gateway:', parsed.error.message);
+        return;
+      }
+      const msg = parsed.message;
+      if (msg.type === 'audio') {
+        output.push(Buffer.from(msg.data, 'base64'));
+        return;
+      }
+      frames.push(msg);
+
+      switch (msg.type) {
+        case 'welcome':
+          streamInput();
+          break;
+        case 'transcript':
+          if (msg.final && msg.text.trim()) observedLines.push(`${msg.role}: ${msg.text.trim()}`);
+          break;
+        case 'text': {
+          const executing = msg.payload.role === 'system' && /^Executing: (\w+)/.exec(msg.payload.text);
+          if (executing) shownTools.push({ name: executing[1], via: 'executing' });
+          if (msg.payload.role === 'assistant') observedLines.push(`assistant: ${msg.payload.text}`);
+          break;
+        }
+        case 'confirm_request': {
+          shownTools.push({ name: msg.tool, via: 'confirmation' });
+          // Answer the way the user did, in order; decline when the recording has no answer left
+          const approved = confirmAnswers.shift() ?? false;
+          console.log(`  confirm "${msg.prompt}" -> ${approved ? 'approve' : 'decline'}`);
+          timers.push(setTimeout(() => send({ type: 'confirm_response', id: msg.id, approved }), 200));
+          break;
+        }
+        case 'tool_call': {
+          shownTools.push({ name: msg.name, via: 'client' });
+          // Answer with the recorded result for this tool; refuse when the recording has none left
+          const index = clientResults.findIndex(r => r.name === msg.name);
+          const recorded = index >= 0 ? clientResults.splice(index, 1)[0] : null;
+          console.log(`  client tool ${msg.name} -> ${recorded ? 'recorded answer' : 'denied'}`);
+          timers.push(setTimeout(() => send(recorded
+            ? { type: 'tool_result', id: msg.id, result: recorded.result, error: recorded.error, denied: recorded.denied }
+            : { type: 'tool_result', id: msg.id, denied: true }), 200));
+          break;
+        }
+        case 'error':
+          console.warn(`  gateway error (${msg.code}): ${msg.message}`);
+          break;
+        case 'limit':
+          console.warn(`  limit (${msg.limit}): ${msg.message}`);
+          break;
+      }
+    });
+    ws.on('error', reject);
+    ws.on('close', (code, reason) => {
+      timers.forEach(clearTimeout);
+      timers = [];
+      if (code !== 1000) console.warn(`Gateway closed the connection: ${code} ${reason.toString()}`);
+      resolve();
+    });
+  });
+
+  await finished;
+
+  const observedTools = countTools(shownTools);
+  const toolsMatch = JSON.stringify(observedTools) === JSON.stringify(recordedTools);
+
+  console.log('\nTool calls');
+  console.log(`  recorded: ${recordedTools.join(', ') || '(none)'}`);
+  console.log(`  replayed: ${observedTools.join(', ') || '(none)'}`);
+  console.log(`  ${toolsMatch ? 'MATCH' : 'DIFFERENT'}`);
+  console.log('\nConversation (recorded)');
+  recordedLines.forEach(line => console.log(`  ${line}`));
+  console.log('\nConversation (replayed)');
+  observedLines.forEach(line => console.log(`  ${line}`));
+
+  if (options.out) {
+    mkdirSync(options.out, { recursive: true });
+    writeFileSync(join(options.out, 'output.wav'), encodeWav(Buffer.concat(output), OUTPUT_SAMPLE_RATE));
+    writeFileSync(join(options.out, 'frames.json'), JSON.stringify(frames, null, 2));
+    console.log(`\nWrote ${options.out}/output.wav and frames.json`);
+  }
+
+  process.exit(options.strict && !toolsMatch ? 1 : 0);
+};
+
+main().catch(err => {
+  console.error(err.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,862 @@
+import { WebSocket } from 'ws';
+import { randomUUID } from 'crypto';
+import { ToolConfig, ToolRegistry } from './tools';
+import { UsageStore } from './usage';
+import { ConversationEvent, ConversationStore } from './history';
+import { SessionRecorder } from './recorder';
+import { N8nClient } from './n8n';
+import { AutomationJob, JobOutcome, JobRegistry } from './jobs';
+import { Notification } from './notifications';
+import { MEMORY_TOOLS, MemoryError, MemoryStore, REMEMBER_FACT_TOOL } from './memory';
+import { CONFIRM_ACTION_TOOL, ConfirmationManager, PendingConfirmation } from './confirmations';
+import { ClientToolCalls, PendingClientCall } from './client-tools';
+import { ToolPolicy, ToolRejection } from './tool-policy';
+import { AuditLog } from './audit';
+import { ModelConnection, ModelProvider, ModelToolCall, ToolDeclaration, TranscriptRole } from './providers';
+import { GatewayMetrics } from './metrics';
+import { AudioSettings, InputDecoder, OutputEncoder, createInputDecoder, createOutputEncoder } from './audio';
+import { Logger, logger } from './logger';
+import {
+  AudioFormats,
+  ClientVideoFrameMessage,
+  CLOSE_REASONS,
+  CloseCode,
+  DEFAULT_AUDIO_FORMATS,
+  ErrorCode,
+  LimitKind,
+  ServerMessage,
+  ToolResultMessage,
+  VideoLimits,
+  encodeMessage,
+} from '../shared/protocol';
+
+/**
+ * ASSISTANT SESSION
+ * One model conversation. It outlives the browser socket: when the client
+ * drops, the session is parked for a grace period and a client presenting the
+ * same token can attach again and continue the conversation.
+ */
+
+export interface SessionOptions {
+  // Authenticated identity that owns this conversation
+  clientId: string;
+  provider: ModelProvider;
+  // Model name, for recordings
+  model: string;
+  // Profile the client picked (server/config.ts); null for the top-level settings
+  profile: string | null;
+  systemInstruction: string;
+  voice?: string;
+  language?: string;
+  tools: ToolRegistry;
+  // Argument checks and allow/deny lists every tool call passes first
+  toolPolicy: ToolPolicy;
+  // Where refused tool calls are written
+  audit: AuditLog;
+  // What the assistant opens a new conversation with
+  greeting?: string;
+  n8n: N8nClient;
+  // Running async automations of every session
+  jobs: JobRegistry;
+  // Long-term household facts; null when memory is turned off
+  memory: MemoryStore | null;
+  // How long a detached session waits for its client before shutting down
+  graceMs: number;
+  usage: UsageStore;
+  history: ConversationStore;
+  // How long a sensitive tool call waits for the user's yes/no
+  confirmationTimeoutMs: number;
+  // Shared deadline for the tool calls of one batch
+  toolDeadlineMs: number;
+  metrics: GatewayMetrics;
+  audio: AudioSettings;
+  // Camera/screen frame limits; null when frames are refused
+  video: VideoLimits | null;
+  // Directory to record audio and events into (server/recorder.ts); off when unset
+  recordTo?: string;
+}
+
+// Audio for the model is 16 kHz mono PCM16, whatever the client sends
+const INPUT_BYTES_PER_SECOND = 16000 * 2;
+
+// Frames may arrive this much early (timer jitter) before they count as over the rate
+const FRAME_INTERVAL_TOLERANCE = 0.8;
+// Tell the client about dropped frames at most this often
+const FRAME_DROP_NOTICE_MS = 10000;
+
+// Non-audio frames kept while no client is attached, replayed on resume
+const MAX_PENDING_FRAMES = 50;
+
+// What the admin API shows about a live session
+export interface SessionSummary {
+  id: string;
+  clientId: string;
+  provider: string;
+  profile: string | null;
+  startedAt: string;
+  durationSeconds: number;
+  // False while waiting for a dropped client to come back
+  attached: boolean;
+  toolCalls: number;
+  pendingConfirmations: number;
+  // Device actions waiting for the browser
+  pendingClientTools: number;
+}
+
+export class AssistantSession {
+  // Public identifier (history, logs); unlike `token` it grants nothing
+  public readonly id = randomUUID();
+  // Secret the owning client presents to resume the session
+  public readonly token = randomUUID();
+  // Called once when the session shuts down for good
+  public onClose: (() => void) | null = null;
+  // Every line logged for this conversation carries its session and client id
+  public readonly log: Logger;
+  public readonly startedAt = Date.now();
+
+  private ws: WebSocket | null = null;
+  private upstream: ModelConnection | null = null;
+  // Provider resumption handle, used to reconnect upstream without losing context
+  private resumeHandle: string | null = null;
+  // Bumped on every upstream connect so callbacks from a replaced session are ignored
+  private generation = 0;
+  private graceTimer: NodeJS.Timeout | null = null;
+  private durationTimer: NodeJS.Timeout;
+  private pending: ServerMessage[] = [];
+  private confirmations: ConfirmationManager;
+  private clientCalls: ClientToolCalls;
+  // Tool calls still being worked on, by call id, so the model can cancel them
+  private inFlight = new Map<string, AbortController>();
+  // Caption text of the utterance currently being transcribed, per side
+  private transcripts: Record<TranscriptRole, string> = { user: '', assistant: '' };
+  // When the user last finished speaking, until the first audio of the reply
+  private turnEndedAt: number | null = null;
+  private toolCallCount = 0;
+  private recorder: SessionRecorder | null = null;
+  // Transcoding for the attached client's audio formats
+  private decoder: InputDecoder | null = null;
+  private encoder: OutputEncoder | null = null;
+  private lastFrameAt = 0;
+  private frameDropNoticeAt = 0;
+  private closed = false;
+
+  constructor(private options: SessionOptions) {
+    this.log = logger.child({ sessionId: this.id, clientId: options.clientId });
+    if (options.recordTo) {
+      this.recorder = new SessionRecorder(options.recordTo, {
+        sessionId: this.id,
+        clientId: options.clientId,
+        provider: options.provider.name,
+        model: options.model,
+        profile: options.profile,
+      });
+      this.log.info('Recording session', { dir: this.recorder.dir });
+    }
+    this.confirmations = new ConfirmationManager(options.confirmationTimeoutMs, c => this.expireConfirmation(c));
+    this.clientCalls = new ClientToolCalls(p => this.expireClientCall(p));
+    options.usage.recordSession(options.clientId);
+    this.record({ type: 'session_start', clientId: options.clientId });
+
+    const { maxSessionSeconds } = options.usage.limits;
+    this.durationTimer = setTimeout(() => {
+      this.endForLimit('session_duration', `Session reached the ${Math.round(maxSessionSeconds / 60)} minute limit`);
+    }, maxSessionSeconds * 1000);
+  }
+
+  get clientId(): string {
+    return this.options.clientId;
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  get videoLimits(): VideoLimits | null {
+    const { video } = this.options;
+    return video && { maxFramesPerSecond: video.maxFramesPerSecond, maxFrameBytes: video.maxFrameBytes };
+  }
+
+  summary(): SessionSummary {
+    return {
+      id: this.id,
+      clientId: this.clientId,
+      provider: this.options.provider.name,
+      profile: this.options.profile,
+      startedAt: new Date(this.startedAt).toISOString(),
+      durationSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+      attached: this.ws !== null,
+      toolCalls: this.toolCallCount,
+      pendingConfirmations: this.confirmations.size,
+      pendingClientTools: this.clientCalls.size,
+    };
+  }
+
+  attach(ws: WebSocket, audio: AudioFormats = DEFAULT_AUDIO_FORMATS) {
+    if (this.graceTimer) {
+      clearTimeout(this.graceTimer);
+      this.graceTimer = null;
+    }
+    // Only one socket drives a session; a newer one takes over
+    if (this.ws && this.ws !== ws) {
+      this.ws.close(CloseCode.SESSION_TAKEN_OVER, CLOSE_REASONS[CloseCode.SESSION_TAKEN_OVER]);
+    }
+    this.ws = ws;
+    this.setupAudio(audio);
+
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(msg => this.send(msg));
+  }
+
+  detach(ws: WebSocket) {
+    if (this.ws !== ws) return;
+    this.ws = null;
+    this.closeAudio();
+    if (this.closed) return;
+
+    this.log.info('Session detached', { graceMs: this.options.graceMs });
+    this.graceTimer = setTimeout(() => {
+      this.log.info('Session expired');
+      this.close('client_gone');
+    }, this.options.graceMs);
+  }
+
+  send(msg: ServerMessage) {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(encodeMessage(msg));
+    } else if (msg.type !== 'audio' && this.pending.length < MAX_PENDING_FRAMES) {
+      this.pending.push(msg);
+    }
+  }
+
+  sendError(code: ErrorCode, message: string, closeCode?: number) {
+    this.send({ type: 'error', code, message, fatal: closeCode !== undefined });
+    if (closeCode !== undefined) this.ws?.close(closeCode, CLOSE_REASONS[closeCode]);
+  }
+
+  // Tell the client which quota it hit and end the conversation
+  endForLimit(limit: LimitKind, message: string, retryAfterSeconds?: number) {
+    this.log.warn('Session hit limit', { limit });
+    this.options.metrics.limitHits.inc({ limit });
+    this.send({ type: 'limit', limit, message, retryAfterSeconds });
+    this.ws?.close(CloseCode.LIMIT_EXCEEDED, CLOSE_REASONS[CloseCode.LIMIT_EXCEEDED]);
+    this.close(`limit:${limit}`);
+  }
+
+  // Operator-initiated shutdown (admin API)
+  terminate(reason: string) {
+    this.log.warn('Session terminated', { reason });
+    this.sendError('terminated', reason, CloseCode.SESSION_TERMINATED);
+    this.close('terminated');
+  }
+
+  // Connect to the model (resuming from the last handle if we have one)
+  async connect() {
+    const generation = ++this.generation;
+    const { provider, systemInstruction, voice, language, tools, memory } = this.options;
+    // Ignore callbacks from a connection that has since been replaced or closed
+    const current = () => generation === this.generation;
+    // A half-finished caption from the previous connection will never be completed
+    this.transcripts = { user: '', assistant: '' };
+
+    // confirm_action is only offered when some tool needs it
+    const declarations = [
+      ...tools.list(),
+      ...(tools.list().some(t => t.requiresConfirmation) ? [CONFIRM_ACTION_TOOL] : []),
+      ...(memory ? MEMORY_TOOLS : []),
+    ];
+
+    this.upstream = await provider.connect(
+      {
+        // Facts are read on every connect, so a resumed connection sees what was learned since
+        systemInstruction: systemInstruction + (memory?.promptSection() ?? ''),
+        tools: declarations,
+        resumeHandle: this.resumeHandle ?? undefined,
+        voice,
+        language,
+        log: this.log,
+      },
+      {
+        onOpen: () => {
+          if (current()) this.send({ type: 'text', payload: { role: 'system', text: 'Assistant Ready' } });
+        },
+        onAudio: (data) => {
+          if (!current()) return;
+          const { metrics } = this.options;
+          metrics.audioFrames.inc({ direction: 'out' });
+          this.recorder?.outputAudio(data);
+          if (this.turnEndedAt !== null) {
+            metrics.timeToFirstAudio.observe({ provider: this.options.provider.name }, (Date.now() - this.turnEndedAt) / 1000);
+            this.turnEndedAt = null;
+          }
+          this.encoder?.push(Buffer.from(data, 'base64'));
+        },
+        onText: (text) => {
+          if (!current()) return;
+          this.send({ type: 'text', payload: { role: 'assistant', text } });
+          this.record({ type: 'assistant', text });
+        },
+        onTranscript: (role, text, final) => {
+          if (current()) this.handleTranscript(role, text, final);
+        },
+        onToolCall: (calls) => {
+          if (!current()) return;
+          this.handleToolCalls(calls).catch(err => this.log.error('Error handling tool calls', { err }));
+        },
+        onToolCallCancellation: (ids) => {
+          if (current()) this.cancelToolCalls(ids);
+        },
+        onInterrupted: () => {
+          if (!current()) return;
+          this.recorder?.event({ type: 'interrupt' });
+          this.encoder?.interrupt();
+          this.send({ type: 'interrupt' });
+        },
+        onTurnComplete: () => {
+          if (current()) this.encoder?.endTurn();
+        },
+        onResumeHandle: (handle) => {
+          if (current()) this.resumeHandle = handle;
+        },
+        onClose: () => {
+          if (current()) this.handleUpstreamClose();
+        },
+      }
+    );
+  }
+
+  // Client audio in the format agreed at attach
+  sendAudio(data: string) {
+    // Audio that arrives before the model is connected is dropped
+    if (!this.upstream || !this.decoder) return;
+    this.options.metrics.audioFrames.inc({ direction: 'in' });
+    this.decoder.push(Buffer.from(data, 'base64'));
+  }
+
+  // A still from the user's camera or screen, within the configured size and rate
+  sendVideoFrame(frame: ClientVideoFrameMessage) {
+    const { video, metrics } = this.options;
+    if (!video) {
+      this.sendError('video_frame', 'This assistant does not accept camera or screen frames');
+      return;
+    }
+    if (!this.upstream) return;
+
+    const bytes = Buffer.byteLength(frame.data, 'base64');
+    if (bytes > video.maxFrameBytes) {
+      metrics.videoFrames.inc({ source: frame.source, outcome: 'too_large' });
+      this.sendError('video_frame', `Frame is ${bytes} bytes; at most ${video.maxFrameBytes} allowed`);
+      return;
+    }
+    const now = Date.now();
+    if (now - this.lastFrameAt < (1000 / video.maxFramesPerSecond) * FRAME_INTERVAL_TOLERANCE) {
+      metrics.videoFrames.inc({ source: frame.source, outcome: 'rate_limited' });
+      if (now - this.frameDropNoticeAt >= FRAME_DROP_NOTICE_MS) {
+        this.frameDropNoticeAt = now;
+        this.sendError('video_frame', `At most ${video.maxFramesPerSecond} frames per second; extra frames are dropped`);
+      }
+      return;
+    }
+
+    this.lastFrameAt = now;
+    metrics.videoFrames.inc({ source: frame.source, outcome: 'forwarded' });
+    this.recorder?.event({ type: 'video_frame', source: frame.source, bytes });
+    this.upstream.sendImage(frame.data, frame.mimeType);
+  }
+
+  // A typed user turn. The model answers it the same way as speech (audio plus captions).
+  sendText(text: string) {
+    if (!this.upstream) {
+      this.sendError('upstream', 'Assistant is not connected yet, try again in a moment');
+      return;
+    }
+    this.recorder?.event({ type: 'text_in', text });
+    this.record({ type: 'user', text });
+    this.turnEndedAt = Date.now();
+    this.upstream.sendText(text);
+  }
+
+  close(reason: string = 'closed') {
+    if (this.closed) return;
+    this.closed = true;
+    this.record({ type: 'session_end', reason });
+    this.generation++;
+    if (this.graceTimer) clearTimeout(this.graceTimer);
+    clearTimeout(this.durationTimer);
+    this.confirmations.clear();
+    this.clientCalls.clear();
+    this.inFlight.forEach(controller => controller.abort());
+    this.inFlight.clear();
+    this.closeAudio();
+    this.recorder?.close();
+    this.upstream?.close();
+    this.upstream = null;
+    this.onClose?.();
+  }
+
+  // Decoded audio on its way to the model; the daily allowance counts what the model hears
+  private forwardAudio(pcm: Buffer) {
+    if (!this.upstream) return;
+    if (!this.options.usage.recordAudio(this.clientId, pcm.length / INPUT_BYTES_PER_SECOND)) {
+      this.endForLimit('audio_daily', 'Daily audio allowance used up');
+      return;
+    }
+    const data = pcm.toString('base64');
+    this.recorder?.inputAudio(data);
+    this.upstream.sendAudio(data);
+  }
+
+  // Each attached socket gets its own codecs; output from replaced ones is ignored
+  private setupAudio(audio: AudioFormats) {
+    this.closeAudio();
+    const settings = this.options.audio;
+    const audioError = (message: string) => {
+      this.log.warn('Audio transcoding failed', { message });
+      this.sendError('audio_format', message);
+    };
+    const decoder = createInputDecoder(audio.input, settings, pcm => {
+      if (this.decoder === decoder) this.forwardAudio(pcm);
+    }, audioError);
+    const encoder = createOutputEncoder(audio.output, settings, (data, newStream) => {
+      if (this.encoder === encoder) this.send({ type: 'audio', data: data.toString('base64'), newStream: newStream || undefined });
+    }, audioError);
+    this.decoder = decoder;
+    this.encoder = encoder;
+  }
+
+  private closeAudio() {
+    this.decoder?.close();
+    this.encoder?.close();
+    this.decoder = null;
+    this.encoder = null;
+  }
+
+  // Providers drop long-lived connections (Gemini's goAway); reconnect transparently if we can resume
+  private handleUpstreamClose() {
+    this.upstream = null;
+    if (this.closed) return;
+
+    if (this.resumeHandle) {
+      this.log.info('Resuming model session', { provider: this.options.provider.name });
+      this.options.metrics.upstreamReconnects.inc({ provider: this.options.provider.name });
+      this.connect().catch(err => {
+        this.log.error('Failed to resume model session', { err });
+        this.sendError('upstream', 'Assistant session ended', CloseCode.UPSTREAM_FAILED);
+        this.close('upstream_failed');
+      });
+      return;
+    }
+
+    this.sendError('upstream', 'Assistant session ended', CloseCode.UPSTREAM_FAILED);
+    this.close('upstream_closed');
+  }
+
+  // Conversation history, mirrored into the recording when there is one
+  private record(event: ConversationEvent) {
+    this.options.history.record(this.id, event);
+    this.recorder?.event(event);
+  }
+
+  // Stream the growing caption to the client and keep the finished utterance in history
+  private handleTranscript(role: TranscriptRole, text: string, final: boolean) {
+    const full = this.transcripts[role] + text;
+    this.transcripts[role] = final ? '' : full;
+    if (!full && !final) return;
+
+    this.send({ type: 'transcript', role, text: full, final });
+    // Time to first audio is measured from the end of the user's utterance
+    if (role === 'user') this.turnEndedAt = final ? Date.now() : null;
+    if (final && full.trim()) {
+      this.record({ type: role, text: full.trim() });
+    }
+  }
+
+  private respond(call: ModelToolCall, response: Record<string, unknown>) {
+    this.upstream?.sendToolResponse([{ id: call.id, name: call.name, response }]);
+  }
+
+  // Run one batch of tool calls (n8n integration). The calls run concurrently
+  // under a shared deadline and are answered together in one response; calls
+  // the model cancels meanwhile are aborted and left out.
+  private async handleToolCalls(calls: ModelToolCall[]) {
+    this.log.info('Tool calls received', { calls: calls.map(c => ({ id: c.id, name: c.name, args: c.args })) });
+    const deadline = AbortSignal.timeout(this.options.toolDeadlineMs);
+    const controllers = calls.map(call => {
+      const controller = new AbortController();
+      this.inFlight.set(call.id, controller);
+      return controller;
+    });
+
+    const startedAt = Date.now();
+    const responses = await Promise.all(calls.map((call, i) =>
+      this.runToolCall(call, AbortSignal.any([controllers[i].signal, deadline])).catch(err => {
+        this.log.error('Tool call failed unexpectedly', { tool: call.name, callId: call.id, err });
+        return { error: `Could not run ${call.name}` };
+      })
+    ));
+    // An approval on screen may have taken the id over meanwhile (see confirmFromClient)
+    calls.forEach((call, i) => {
+      if (this.inFlight.get(call.id) === controllers[i]) this.inFlight.delete(call.id);
+    });
+
+    // Client tools answer on their own; cancelled calls get no answer at all
+    const answers = calls
+      .map((call, i) => ({ id: call.id, name: call.name, response: responses[i] }))
+      .filter((answer, i) => answer.response && !controllers[i].signal.aborted);
+    this.log.debug('Tool batch finished', { calls: calls.length, answered: answers.length, durationMs: Date.now() - startedAt });
+    if (answers.length > 0) this.upstream?.sendToolResponse(answers);
+  }
+
+  // The model dropped these calls: abort their webhooks, withdraw their permission prompts and confirmation cards
+  private cancelToolCalls(ids: string[]) {
+    this.log.info('Tool calls cancelled by the model', { ids });
+    for (const id of ids) {
+      this.inFlight.get(id)?.abort();
+      const confirmation = this.confirmations.takeByCallId(id);
+      if (confirmation) {
+        this.options.metrics.toolCalls.inc({ tool: confirmation.tool.name, outcome: 'cancelled' });
+        this.record({ type: 'tool_result', callId: id, name: confirmation.tool.name, error: 'cancelled' });
+        this.send({ type: 'confirm_resolved', id: confirmation.id, outcome: 'cancelled' });
+      }
+      const pending = this.clientCalls.takeByCallId(id);
+      if (!pending) continue;
+      this.options.metrics.toolCalls.inc({ tool: pending.tool.name, outcome: 'cancelled' });
+      this.record({ type: 'tool_result', callId: id, name: pending.tool.name, error: 'cancelled' });
+      this.send({ type: 'tool_cancel', id: pending.id });
+    }
+  }
+
+  // One call of a batch. Null when the answer comes later (client tools).
+  private async runToolCall(call: ModelToolCall, signal: AbortSignal): Promise<Record<string, unknown> | null> {
+    const { tools, usage, metrics } = this.options;
+    this.toolCallCount++;
+    this.record({ type: 'tool_call', callId: call.id, name: call.name, args: call.args });
+
+    const builtIn = this.builtInTool(call.name);
+    const tool = builtIn ? null : tools.get(call.name);
+    if (!builtIn && !tool) {
+      this.log.warn('Unknown tool requested', { tool: call.name });
+      metrics.toolCalls.inc({ tool: 'unknown', outcome: 'unknown_tool' });
+      this.record({ type: 'tool_result', callId: call.id, name: call.name, error: 'unknown_tool' });
+      return { error: `Unknown tool: ${call.name}` };
+    }
+
+    const checked = this.options.toolPolicy.check(this.clientId, builtIn ?? tool, call.args);
+    if (!checked.ok) {
+      return this.rejectToolCall(call, checked.rejection);
+    }
+    // From here on the tool only sees the validated, sanitized arguments
+    call = { ...call, args: checked.args };
+
+    // The model relaying the user's spoken yes/no
+    if (call.name === CONFIRM_ACTION_TOOL.name) {
+      const { confirmationId, approved } = call.args as { confirmationId?: string; approved?: boolean };
+      const confirmation = this.confirmations.take(String(confirmationId));
+      const response = confirmation
+        ? await this.resolveConfirmation(confirmation, approved === true, 'voice', signal)
+        : { error: 'No pending confirmation with that id (it may have expired or already been answered)' };
+      this.record({ type: 'tool_result', callId: call.id, name: call.name, result: response });
+      return response;
+    }
+
+    // remember_fact / forget_fact
+    if (builtIn) {
+      const response = this.handleMemoryCall(call, this.options.memory);
+      this.record({ type: 'tool_result', callId: call.id, name: call.name, result: response });
+      return response;
+    }
+
+    if (!usage.recordToolCall(this.clientId)) {
+      const retryAfterSeconds = usage.toolCallRetryAfter(this.clientId);
+      metrics.toolCalls.inc({ tool: tool.name, outcome: 'rate_limited' });
+      metrics.limitHits.inc({ limit: 'tool_rate' });
+      this.record({ type: 'tool_result', callId: call.id, name: call.name, error: 'rate_limited' });
+      this.send({ type: 'limit', limit: 'tool_rate', message: 'Too many automations, slow down', retryAfterSeconds });
+      return { error: `Rate limit reached, try again in ${retryAfterSeconds} seconds` };
+    }
+
+    if (tool.client) {
+      return this.callClient(call, tool);
+    }
+
+    if (tool.requiresConfirmation) {
+      return this.requestConfirmation(call, tool);
+    }
+
+    return this.executeTool(call, tool, signal);
+  }
+
+  // confirm_action, and remember_fact / forget_fact when memory is on; answered by the gateway itself
+  private builtInTool(name: string): ToolDeclaration | undefined {
+    if (name === CONFIRM_ACTION_TOOL.name) return CONFIRM_ACTION_TOOL;
+    return this.options.memory ? MEMORY_TOOLS.find(t => t.name === name) : undefined;
+  }
+
+  // Refuse a call that failed the policy; the model hears why, the audit log keeps the attempt
+  private rejectToolCall(call: ModelToolCall, rejection: ToolRejection): Record<string, unknown> {
+    this.options.metrics.toolCalls.inc({ tool: call.name, outcome: rejection.reason });
+    this.options.audit.record({
+      clientId: this.clientId,
+      sessionId: this.id,
+      tool: call.name,
+      args: call.args,
+      reason: rejection.reason,
+      message: rejection.message,
+      problems: rejection.problems,
+    });
+    this.record({ type: 'tool_result', callId: call.id, name: call.name, error: rejection.reason });
+    return {
+      error: { category: rejection.reason, message: rejection.message, problems: rejection.problems },
+      instructions: rejection.reason === 'not_allowed'
+        ? 'Tell the user this action is not permitted here. Do not retry it in another form.'
+        : 'Fix the arguments to match the tool description, or ask the user for what is missing.',
+    };
+  }
+
+  // remember_fact / forget_fact, answered locally
+  private handleMemoryCall(call: ModelToolCall, memory: MemoryStore): Record<string, unknown> {
+    const { fact, factId } = call.args as { fact?: string; factId?: string };
+    const { metrics } = this.options;
+    try {
+      if (call.name === REMEMBER_FACT_TOOL.name) {
+        const stored = memory.add(String(fact ?? ''), 'model', this.clientId);
+        this.log.info('Fact remembered', { factId: stored.id });
+        metrics.toolCalls.inc({ tool: call.name, outcome: 'ok' });
+        return { result: 'remembered', factId: stored.id };
+      }
+      if (!memory.delete(String(factId ?? ''))) {
+        metrics.toolCalls.inc({ tool: call.name, outcome: 'not_found' });
+        return { error: `No stored fact with id ${factId}` };
+      }
+      this.log.info('Fact forgotten', { factId });
+      metrics.toolCalls.inc({ tool: call.name, outcome: 'ok' });
+      return { result: 'forgotten' };
+    } catch (err) {
+      if (!(err instanceof MemoryError)) throw err;
+      metrics.toolCalls.inc({ tool: call.name, outcome: 'invalid' });
+      return { error: err.message };
+    }
+  }
+
+  // Call the n8n workflow bound to this tool and build the response for the model.
+  // `signal` aborts the webhook request (the model cancelled, or the batch ran out of time).
+  private async executeTool(call: ModelToolCall, tool: ToolConfig, signal?: AbortSignal): Promise<Record<string, unknown>> {
+    const { n8n, jobs, metrics } = this.options;
+
+    // Notify Client
+    this.send({ type: 'text', payload: { role: 'system', text: `Executing: ${call.name}` } });
+    this.recorder?.event({ type: 'tool_shown', name: call.name, via: 'executing' });
+
+    // Async tools report back on the callback route; the webhook's answer only means "started"
+    const job = tool.async ? jobs.create(this.id, this.clientId, tool, call.id) : null;
+
+    const startedAt = Date.now();
+    let outcome = await n8n.call(tool, call.args, signal, job ? jobs.headersFor(job) : undefined);
+    // AbortSignal.timeout aborts with a TimeoutError: the batch's deadline passed, nobody cancelled
+    if (!outcome.ok && outcome.error.category === 'cancelled' && signal?.reason?.name === 'TimeoutError') {
+      const message = `No result within the ${this.options.toolDeadlineMs}ms deadline for this batch of tool calls`;
+      outcome = { ok: false, attempts: outcome.attempts, error: { category: 'timeout', message } };
+    }
+    const result = outcome.ok ? 'ok' : outcome.error.category;
+    metrics.toolCalls.inc({ tool: tool.name, outcome: result });
+    metrics.toolCallDuration.observe({ tool: tool.name, outcome: result }, (Date.now() - startedAt) / 1000);
+    metrics.n8nRequests.inc({ outcome: result });
+    metrics.n8nAttempts.inc({}, outcome.attempts);
+
+    if (outcome.ok && job) {
+      this.log.info('Async job started', { tool: tool.name, jobId: job.id });
+      this.record({ type: 'tool_result', callId: call.id, name: call.name, result: { status: 'started', jobId: job.id } });
+      return {
+        status: 'started',
+        jobId: job.id,
+        instructions: 'The automation is running in the background. Tell the user it has started; ' +
+          'you will receive its result in a later system notice.',
+      };
+    }
+    if (outcome.ok) {
+      this.record({ type: 'tool_result', callId: call.id, name: call.name, result: outcome.result });
+      return { result: outcome.result };
+    }
+    if (job) jobs.take(job.id);
+
+    if (outcome.error.category === 'cancelled') {
+      this.log.info('Tool call cancelled', { tool: tool.name, callId: call.id });
+    } else {
+      this.log.error('Tool call failed', { tool: tool.name, callId: call.id, attempts: outcome.attempts, error: outcome.error });
+    }
+    this.record({ type: 'tool_result', callId: call.id, name: call.name, error: outcome.error });
+    // Send the structured error back so the model can explain what went wrong
+    return { error: outcome.error };
+  }
+
+  // Hand a device action to the browser; the model gets its answer when the browser reports back
+  private callClient(call: ModelToolCall, tool: ToolConfig): Record<string, unknown> | null {
+    if (!this.ws) {
+      this.options.metrics.toolCalls.inc({ tool: tool.name, outcome: 'client_unavailable' });
+      this.record({ type: 'tool_result', callId: call.id, name: call.name, error: 'client_unavailable' });
+      return { error: "The user's device is not connected, so this can't be done right now" };
+    }
+    const pending = this.clientCalls.create(call, tool);
+    this.log.info('Client tool requested', { tool: tool.name, clientCallId: pending.id });
+    this.send({
+      type: 'tool_call',
+      id: pending.id,
+      name: tool.name,
+      args: call.args,
+      prompt: pending.prompt,
+      expiresInSeconds: Math.round((pending.expiresAt - Date.now()) / 1000),
+    });
+    this.recorder?.event({ type: 'tool_shown', name: tool.name, via: 'client' });
+    return null;
+  }
+
+  // Answer from the browser for a client tool call
+  clientToolResult(msg: ToolResultMessage) {
+    const pending = this.clientCalls.take(msg.id);
+    // Timed out already; the model has been told
+    if (!pending) return;
+
+    const { tool, call } = pending;
+    const { metrics } = this.options;
+    const outcome = msg.denied ? 'declined' : msg.error !== undefined ? 'client_error' : 'ok';
+    this.log.info('Client tool answered', { tool: tool.name, clientCallId: pending.id, outcome });
+    metrics.toolCalls.inc({ tool: tool.name, outcome });
+    metrics.toolCallDuration.observe({ tool: tool.name, outcome }, (Date.now() - pending.startedAt) / 1000);
+    this.recorder?.event({ type: 'client_tool_result', name: tool.name, result: msg.result, error: msg.error, denied: msg.denied });
+
+    if (msg.denied) {
+      this.record({ type: 'tool_result', callId: call.id, name: call.name, error: 'declined_by_user' });
+      this.respond(call, { status: 'cancelled', message: 'The user did not allow this on their device; nothing was done.' });
+      return;
+    }
+    if (msg.error !== undefined) {
+      this.record({ type: 'tool_result', callId: call.id, name: call.name, error: msg.error });
+      this.respond(call, { error: msg.error });
+      return;
+    }
+    this.record({ type: 'tool_result', callId: call.id, name: call.name, result: msg.result });
+    this.respond(call, { result: msg.result ?? 'done' });
+  }
+
+  private expireClientCall(pending: PendingClientCall) {
+    const { tool, call } = pending;
+    this.log.info('Client tool timed out', { tool: tool.name, clientCallId: pending.id });
+    this.options.metrics.toolCalls.inc({ tool: tool.name, outcome: 'timeout' });
+    this.send({ type: 'tool_cancel', id: pending.id });
+    this.record({ type: 'tool_result', callId: call.id, name: call.name, error: 'timeout' });
+    this.respond(call, { error: "The user's device did not answer in time; nothing was done." });
+  }
+
+  // Park a sensitive call: the UI shows a card, the model asks the user out loud
+  private requestConfirmation(call: ModelToolCall, tool: ToolConfig): Record<string, unknown> {
+    const confirmation = this.confirmations.create(call, tool);
+    const expiresInSeconds = Math.round((confirmation.expiresAt - Date.now()) / 1000);
+
+    this.send({
+      type: 'confirm_request',
+      id: confirmation.id,
+      tool: tool.name,
+      args: call.args,
+      prompt: confirmation.prompt,
+      expiresInSeconds,
+    });
+    this.recorder?.event({ type: 'tool_shown', name: tool.name, via: 'confirmation' });
+    return {
+      status: 'confirmation_required',
+      confirmationId: confirmation.id,
+      instructions: `Do not claim the action was done. Ask the user: "${confirmation.prompt}" ` +
+        `Then call ${CONFIRM_ACTION_TOOL.name} with this confirmationId and their answer. ` +
+        `The request expires in ${expiresInSeconds} seconds.`,
+    };
+  }
+
+  // Settle a confirmation from either side and run the tool if approved
+  private async resolveConfirmation(
+    confirmation: PendingConfirmation,
+    approved: boolean,
+    via: 'voice' | 'ui',
+    signal?: AbortSignal
+  ): Promise<Record<string, unknown>> {
+    this.log.info('Confirmation resolved', { confirmationId: confirmation.id, tool: confirmation.tool.name, approved, via });
+    this.send({ type: 'confirm_resolved', id: confirmation.id, outcome: approved ? 'approved' : 'denied' });
+
+    if (!approved) {
+      this.options.metrics.toolCalls.inc({ tool: confirmation.tool.name, outcome: 'declined' });
+      this.record({
+        type: 'tool_result', callId: confirmation.call.id, name: confirmation.tool.name, error: 'declined_by_user',
+      });
+      return { status: 'cancelled', message: 'The user declined; the action was not performed.' };
+    }
+    return this.executeTool(confirmation.call, confirmation.tool, signal);
+  }
+
+  // Result of an async automation this session started. False when nobody is here to hear it
+  // (client detached or model reconnecting); the caller stores it as a notification instead.
+  deliverJobResult(job: AutomationJob, outcome: JobOutcome): boolean {
+    if (this.closed || !this.ws || !this.upstream) return false;
+
+    this.record({ type: 'job_result', jobId: job.id, name: job.tool, result: outcome.result, error: outcome.error });
+    this.send({ type: 'text', payload: { role: 'system', text: `${outcome.ok ? 'Finished' : 'Failed'}: ${job.tool}` } });
+    this.upstream.sendText(
+      `[System notice] The background automation ${job.tool} (job ${job.id}) ` +
+      (outcome.ok ? `finished. Result: ${JSON.stringify(outcome.result)}` : `failed: ${outcome.error}`) +
+      ' Briefly let the user know.'
+    );
+    return true;
+  }
+
+  // Opening turn of a new conversation: the profile's greeting and whatever
+  // reported back while the user was away, as one notice so the model answers once
+  greet(notifications: Notification[]) {
+    const { greeting } = this.options;
+    if ((!greeting && notifications.length === 0) || !this.upstream) return;
+
+    const parts: string[] = [];
+    if (notifications.length > 0) {
+      const lines = notifications.map(n =>
+        `- ${n.source} (${n.createdAt}): ` + (n.error ? `failed: ${n.error}` : `finished. Result: ${JSON.stringify(n.result)}`)
+      );
+      this.log.info('Delivering stored notifications', { count: notifications.length });
+      parts.push(`While the user was away, these background automations reported back:\n${lines.join('\n')}`);
+    }
+    const greet = greeting ? `Greet the user with "${greeting}"` : 'Greet the user';
+    parts.push(notifications.length > 0 ? `${greet} and summarize them briefly.` : `${greet}.`);
+    this.upstream.sendText(`[System notice] ${parts.join('\n')}`);
+  }
+
+  // Answer from the confirmation card in the UI
+  async confirmFromClient(id: string, approved: boolean) {
+    this.recorder?.event({ type: 'confirm_response', id, approved });
+    const confirmation = this.confirmations.take(id);
+    // Already answered by voice or expired; the client got confirm_resolved for it
+    if (!confirmation) return;
+
+    // Tracked like a batch call, so the model cancelling it or the session closing aborts the webhook
+    const controller = new AbortController();
+    const { id: callId } = confirmation.call;
+    this.inFlight.set(callId, controller);
+    let response: Record<string, unknown>;
+    try {
+      const signal = AbortSignal.any([controller.signal, AbortSignal.timeout(this.options.toolDeadlineMs)]);
+      response = await this.resolveConfirmation(confirmation, approved, 'ui', signal);
+    } finally {
+      if (this.inFlight.get(callId) === controller) this.inFlight.delete(callId);
+    }
+    if (controller.signal.aborted) return;
+    // The model didn't take part in this answer, so tell it what happened
+    const outcome = approved ? `Outcome: ${JSON.stringify(response)}` : 'The action was not performed.';
+    this.upstream?.sendText(
+      `[System notice] The user ${approved ? 'approved' : 'declined'} "${confirmation.prompt}" on screen. ${outcome} Briefly let the user know.`
+    );
+  }
+
+  private expireConfirmation(confirmation: PendingConfirmation) {
+    this.log.info('Confirmation expired', { confirmationId: confirmation.id, tool: confirmation.tool.name });
+    this.options.metrics.toolCalls.inc({ tool: confirmation.tool.name, outcome: 'confirmation_expired' });
+    this.send({ type: 'confirm_resolved', id: confirmation.id, outcome: 'expired' });
+    this.record({
+      type: 'tool_result', callId: confirmation.call.id, name: confirmation.tool.name, error: 'confirmation_expired',
+    });
+    this.upstream?.sendText(`[System notice] Nobody confirmed "${confirmation.prompt}" in time, so it was not performed. Briefly let the user know.`);
+  }
+}
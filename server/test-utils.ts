@@ -0,0 +1,209 @@
+import { spawn, ChildProcess } from 'child_process';
+import { createServer, IncomingMessage, Server } from 'http';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { WebSocket } from 'ws';
+import { ClientMessage, HelloMessage, PROTOCOL_VERSION, ServerMessage, encodeMessage, parseServerMessage } from '../shared/protocol';
+import { MockScript } from './providers/mock';
+
+/**
+ * TEST HELPERS
+ * A real gateway process on the mock provider, a stand-in for n8n and a
+ * protocol client, so tests drive the same path a browser does.
+ */
+
+const ROOT = resolve(import.meta.dirname, '..');
+const STARTUP_TIMEOUT_MS = 20000;
+
+const freePort = (): Promise<number> =>
+  new Promise((res, rej) => {
+    const probe = createServer();
+    probe.once('error', rej);
+    probe.listen(0, () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => res(port));
+    });
+  });
+
+const waitFor = async <T>(check: () => T | undefined, timeoutMs: number, what: string): Promise<T> => {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = check();
+    if (value !== undefined) return value;
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${what}`);
+    await new Promise(r => setTimeout(r, 20));
+  }
+};
+
+export interface N8nRequest {
+  path: string;
+  body: unknown;
+  headers: IncomingMessage['headers'];
+  // The gateway gave up on the request before it was answered
+  aborted: boolean;
+}
+
+export interface FakeN8n {
+  url: string;
+  requests: N8nRequest[];
+  // Answer requests to `path` after `ms`
+  delay(path: string, ms: number): void;
+  // Answer requests to `path` with this HTTP status instead of 200
+  status(path: string, code: number): void;
+  // Wait until `count` requests have arrived
+  received(count: number, timeoutMs?: number): Promise<N8nRequest[]>;
+  close(): Promise<void>;
+}
+
+// Answers every webhook with `{ ok: true, path }`, after a per-path delay and with a per-path status
+export const startFakeN8n = async (): Promise<FakeN8n> => {
+  const requests: N8nRequest[] = [];
+  const delays = new Map<string, number>();
+  const statuses = new Map<string, number>();
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const path = new URL(req.url || '/', 'http://localhost').pathname;
+      const request: N8nRequest = { path, body: body ? JSON.parse(body) : null, headers: req.headers, aborted: false };
+      requests.push(request);
+      res.on('close', () => {
+        if (!res.writableFinished) request.aborted = true;
+      });
+      setTimeout(() => {
+        if (res.destroyed) return;
+        const status = statuses.get(path) ?? 200;
+        res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({ ok: status < 400, path }));
+      }, delays.get(path) ?? 0);
+    });
+  });
+  await new Promise<void>(r => server.listen(0, '127.0.0.1', r));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    delay: (path, ms) => delays.set(path, ms),
+    status: (path, code) => statuses.set(path, code),
+    received: (count, timeoutMs = 5000) =>
+      waitFor(() => (requests.length >= count ? requests : undefined), timeoutMs, `${count} n8n requests`),
+    close: () => {
+      server.closeAllConnections();
+      return new Promise(r => server.close(() => r()));
+    },
+  };
+};
+
+export interface GatewayOptions {
+  script: MockScript;
+  n8n?: FakeN8n;
+  env?: Record<string, string>;
+}
+
+export interface TestGateway {
+  url: string;
+  httpUrl: string;
+  // Everything the process logged so far
+  logs(): string;
+  stop(): Promise<void>;
+}
+
+// Start server/gateway.ts on a free port with its state in a temporary directory
+export const startGateway = async ({ script, n8n, env = {} }: GatewayOptions): Promise<TestGateway> => {
+  const dir = mkdtempSync(join(tmpdir(), 'nexora-test-'));
+  const scriptFile = join(dir, 'script.json');
+  writeFileSync(scriptFile, JSON.stringify(script));
+  const port = await freePort();
+  const n8nUrl = n8n?.url ?? 'http://127.0.0.1:9';
+
+  const child: ChildProcess = spawn(process.execPath, ['--import', 'tsx', 'server/gateway.ts'], {
+    cwd: ROOT,
+    env: {
+      ...process.env,
+      PORT: String(port),
+      MODEL_PROVIDER: 'mock',
+      MOCK_SCRIPT: scriptFile,
+      GATEWAY_ALLOW_ANONYMOUS: 'true',
+      N8N_BASE_URL: n8nUrl,
+      N8N_WEBHOOK_URL: `${n8nUrl}/webhook/nexora`,
+      USAGE_FILE: join(dir, 'usage.json'),
+      HISTORY_DIR: join(dir, 'history'),
+      RECORDINGS_DIR: join(dir, 'recordings'),
+      NOTIFICATIONS_FILE: join(dir, 'notifications.json'),
+      MEMORY_FILE: join(dir, 'memory.json'),
+      AUDIT_FILE: join(dir, 'audit.jsonl'),
+      LIMIT_CONCURRENT_SESSIONS: '10',
+      LOG_LEVEL: 'debug',
+      ...env,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  let output = '';
+  child.stdout.on('data', data => (output += data));
+  child.stderr.on('data', data => (output += data));
+  const exited = new Promise<void>(r => child.once('exit', () => r()));
+
+  const stop = async () => {
+    if (child.exitCode === null) child.kill('SIGTERM');
+    await exited;
+    rmSync(dir, { recursive: true, force: true });
+  };
+
+  try {
+    await waitFor(() => {
+      if (child.exitCode !== null) throw new Error(`Gateway exited during startup:\n${output}`);
+      return output.includes('Gateway running') ? true : undefined;
+    }, STARTUP_TIMEOUT_MS, 'the gateway to start');
+  } catch (err) {
+    await stop();
+    throw err;
+  }
+
+  return { url: `ws://127.0.0.1:${port}`, httpUrl: `http://127.0.0.1:${port}`, logs: () => output, stop };
+};
+
+export interface TestClient {
+  frames: ServerMessage[];
+  send(msg: ClientMessage): void;
+  // The first frame (already received or still to come) that matches
+  next<T extends ServerMessage['type']>(
+    type: T,
+    match?: (msg: Extract<ServerMessage, { type: T }>) => boolean,
+    timeoutMs?: number
+  ): Promise<Extract<ServerMessage, { type: T }>>;
+  // Resolves with the close code
+  closed: Promise<number>;
+  close(): void;
+}
+
+// A protocol client; sends `hello` (with `hello` fields merged in) once the socket opens
+export const connectClient = (url: string, hello: Partial<HelloMessage> = {}): TestClient => {
+  const ws = new WebSocket(url);
+  const frames: ServerMessage[] = [];
+  const closed = new Promise<number>(r => ws.once('close', code => r(code)));
+  ws.on('open', () => ws.send(encodeMessage({ type: 'hello', version: PROTOCOL_VERSION, ...hello })));
+  ws.on('message', data => {
+    const parsed = parseServerMessage(data.toString());
+    if (parsed.ok && parsed.message.type !== 'audio') frames.push(parsed.message);
+  });
+  // Each matching frame is handed out once, so a test can wait for the second of a kind
+  const taken = new Set<ServerMessage>();
+
+  return {
+    frames,
+    send: msg => ws.send(encodeMessage(msg)),
+    next: (type, match = () => true, timeoutMs = 5000) =>
+      waitFor(() => {
+        const found = frames.find(f => f.type === type && !taken.has(f) && match(f as never));
+        if (found) taken.add(found);
+        return found as never;
+      }, timeoutMs, `a "${type}" frame`),
+    closed,
+    close: () => ws.close(1000),
+  };
+};
+
+// A system line the gateway shows in the chat log, e.g. "Executing: set_timer"
+export const isSystemText = (text: string) => (msg: Extract<ServerMessage, { type: 'text' }>) =>
+  msg.payload.role === 'system' && msg.payload.text === text;
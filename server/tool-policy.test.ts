@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { ToolDeclaration } from './providers';
+import { ToolPolicy, sanitizeString, validateArguments } from './tool-policy';
+
+const thermostat: ToolDeclaration = {
+  name: 'set_thermostat',
+  description: 'Set the temperature',
+  parameters: {
+    type: 'object',
+    properties: {
+      temperature: { type: 'integer', minimum: 10, maximum: 30 },
+      room: { type: 'string', pattern: '^[a-z ]+$' },
+    },
+    required: ['temperature'],
+  },
+};
+
+const automation: ToolDeclaration = {
+  name: 'trigger_automation',
+  description: 'Run an automation',
+  parameters: { type: 'object', properties: { action: { type: 'string' } }, required: ['action'] },
+};
+
+describe('argument validation', () => {
+  it('accepts arguments that match the schema', () => {
+    expect(validateArguments(thermostat.parameters, { temperature: 21, room: 'kitchen' })).toEqual({
+      args: { temperature: 21, room: 'kitchen' },
+      problems: [],
+    });
+  });
+
+  it('reports each problem', () => {
+    const { problems } = validateArguments(thermostat.parameters, { temperature: 40.5, room: 'Kitchen!', fan: true });
+    expect(problems).toEqual([
+      'temperature: must be a whole number',
+      'room: must match ^[a-z ]+$',
+      'fan: is not a declared argument',
+    ]);
+  });
+
+  it('does not take inherited keys for declared arguments', () => {
+    const { problems } = validateArguments(thermostat.parameters, JSON.parse('{"temperature": 20, "constructor": "x"}'));
+    expect(problems).toEqual(['constructor: is not a declared argument']);
+  });
+
+  it('rejects values for a pattern that does not compile', () => {
+    const schema = { type: 'object', properties: { code: { type: 'string', pattern: '([' } } };
+    expect(validateArguments(schema, { code: 'a' }).problems).toEqual(['code: must match ([']);
+    expect(validateArguments(schema, { code: 'b' }).problems).toHaveLength(1);
+  });
+
+  it('sanitizes strings', () => {
+    expect(sanitizeString(' living\u200B room\u202E ')).toBe('living room');
+    expect(validateArguments(thermostat.parameters, { temperature: 20, room: 'be\u0000d' }).args.room).toBe('bed');
+  });
+});
+
+describe('access rules', () => {
+  it('denies matching calls before checking the allow list', () => {
+    const policy = new ToolPolicy({ '*': { allow: ['*'], deny: ['trigger_automation:unlock_*'] } });
+    expect(policy.check('kiosk', automation, { action: 'lights_on' }).ok).toBe(true);
+    expect(policy.check('kiosk', automation, { action: 'UNLOCK_front' })).toMatchObject({
+      ok: false,
+      rejection: { reason: 'not_allowed', message: 'trigger_automation (UNLOCK_front) is not allowed on this device' },
+    });
+  });
+
+  it('applies a client allow list over the shared one', () => {
+    const policy = new ToolPolicy({ '*': { allow: ['set_*'] }, kiosk: { allow: ['trigger_automation:lights_*'] } });
+    expect(policy.check('phone', thermostat, { temperature: 20 }).ok).toBe(true);
+    expect(policy.check('kiosk', thermostat, { temperature: 20 }).ok).toBe(false);
+    expect(policy.check('kiosk', automation, { action: 'lights_off' }).ok).toBe(true);
+  });
+
+  it('matches rules against sanitized arguments', () => {
+    const policy = new ToolPolicy({ '*': { deny: ['trigger_automation:unlock_door'] } });
+    expect(policy.check('kiosk', automation, { action: 'unlock\u200B_door' }).ok).toBe(false);
+  });
+
+  it('uses new rules once they are replaced', () => {
+    const policy = new ToolPolicy({ '*': { deny: ['set_thermostat'] } });
+    expect(policy.check('kiosk', thermostat, { temperature: 20 }).ok).toBe(false);
+    policy.rules = {};
+    expect(policy.check('kiosk', thermostat, { temperature: 20 }).ok).toBe(true);
+  });
+
+  it('does not look up inherited client ids', () => {
+    const policy = new ToolPolicy({ '*': { allow: ['set_thermostat'] } });
+    expect(policy.check('__proto__', automation, { action: 'lights_on' }).ok).toBe(false);
+    expect(policy.check('constructor', thermostat, { temperature: 20 }).ok).toBe(true);
+  });
+});
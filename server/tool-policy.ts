@@ -0,0 +1,235 @@
+import { ToolDeclaration } from './providers';
+
+/**
+ * TOOL CALL POLICY
+ * Arguments come from the model, and through it from whatever it heard or
+ * read, so nothing it sends reaches n8n or the browser unchecked:
+ *
+ *   1. Arguments are validated against the tool's declared JSON schema
+ *      (type, required, enum, string length and pattern, number range, array
+ *      size). Properties the schema doesn't declare are rejected.
+ *   2. Strings are sanitized: Unicode-normalized, control, zero-width and
+ *      bidi-override characters removed, outer whitespace trimmed.
+ *   3. The sanitized call is matched against the caller's allow and deny
+ *      lists (`toolAccess` in the gateway config).
+ *
+ * A rejected call is answered with a structured error instead of being run.
+ */
+
+// Applied to strings whose schema sets no maxLength
+export const DEFAULT_MAX_STRING_LENGTH = 1000;
+// Applied to arrays whose schema sets no maxItems
+export const DEFAULT_MAX_ITEMS = 100;
+
+// Allow and deny rules for one client id, or for everyone under "*"
+export interface ToolAccessRules {
+  // When set, only matching calls may run
+  allow?: string[];
+  // Matching calls never run; checked before `allow`
+  deny?: string[];
+}
+
+export type ToolRejectionReason = 'invalid_arguments' | 'not_allowed';
+
+export interface ToolRejection {
+  reason: ToolRejectionReason;
+  message: string;
+  // Each schema violation, e.g. 'temperature: must be at most 30'
+  problems?: string[];
+}
+
+export type PolicyResult =
+  | { ok: true; args: Record<string, unknown>; rejection?: undefined }
+  | { ok: false; rejection: ToolRejection; args?: undefined };
+
+// Control characters except tab and newline, zero-width characters, bidi overrides and isolates, BOM
+// eslint-disable-next-line no-control-regex -- matching them is the point
+const UNSAFE_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/g;
+
+export const sanitizeString = (value: string): string => value.normalize('NFC').replace(UNSAFE_CHARACTERS, '').trim();
+
+// Compiled schema patterns. They come from the tool config, not from the model, so this stays small.
+// A broken pattern is kept as null and rejects the value rather than throwing mid-call.
+const compiledPatterns = new Map<string, RegExp | null>();
+
+const testPattern = (pattern: string, text: string): boolean => {
+  let regExp = compiledPatterns.get(pattern);
+  if (regExp === undefined) {
+    try {
+      regExp = new RegExp(pattern, 'u');
+    } catch {
+      regExp = null;
+    }
+    compiledPatterns.set(pattern, regExp);
+  }
+  return regExp !== null && regExp.test(text);
+};
+
+const describe = (value: unknown): string => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+// Check `value` against `schema`, collecting problems; returns the sanitized value
+const check = (schema: Record<string, any>, value: unknown, path: string, problems: string[]): unknown => {
+  const at = path || 'arguments';
+  const fail = (problem: string) => {
+    problems.push(`${at}: ${problem}`);
+    return value;
+  };
+
+  let result = value;
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') return fail(`expected a string, got ${describe(value)}`);
+      const text = sanitizeString(value);
+      const maxLength = schema.maxLength ?? DEFAULT_MAX_STRING_LENGTH;
+      if (text.length > maxLength) fail(`must be at most ${maxLength} characters`);
+      if (schema.minLength !== undefined && text.length < schema.minLength) fail(`must be at least ${schema.minLength} characters`);
+      if (schema.pattern !== undefined && !testPattern(schema.pattern, text)) fail(`must match ${schema.pattern}`);
+      result = text;
+      break;
+    }
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return fail(`expected a number, got ${describe(value)}`);
+      if (schema.type === 'integer' && !Number.isInteger(value)) return fail('must be a whole number');
+      if (schema.minimum !== undefined && value < schema.minimum) fail(`must be at least ${schema.minimum}`);
+      if (schema.maximum !== undefined && value > schema.maximum) fail(`must be at most ${schema.maximum}`);
+      break;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') return fail(`expected true or false, got ${describe(value)}`);
+      break;
+    case 'array': {
+      if (!Array.isArray(value)) return fail(`expected an array, got ${describe(value)}`);
+      const maxItems = schema.maxItems ?? DEFAULT_MAX_ITEMS;
+      if (value.length > maxItems) return fail(`must have at most ${maxItems} items`);
+      if (schema.minItems !== undefined && value.length < schema.minItems) fail(`must have at least ${schema.minItems} items`);
+      result = schema.items ? value.map((item, i) => check(schema.items, item, `${at}[${i}]`, problems)) : value;
+      break;
+    }
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return fail(`expected an object, got ${describe(value)}`);
+      const properties: Record<string, any> = schema.properties ?? {};
+      const object: Record<string, unknown> = {};
+      for (const key of schema.required ?? []) {
+        if ((value as Record<string, unknown>)[key] === undefined) problems.push(`${path ? `${path}.` : ''}${key}: is required`);
+      }
+      for (const [key, item] of Object.entries(value)) {
+        const field = path ? `${path}.${key}` : key;
+        // Own keys only: "constructor" or "toString" are not declared arguments
+        if (!Object.hasOwn(properties, key)) {
+          problems.push(`${field}: is not a declared argument`);
+          continue;
+        }
+        if (item !== undefined) object[key] = check(properties[key], item, field, problems);
+      }
+      result = object;
+      break;
+    }
+    // No type: anything goes, but strings are still cleaned up
+    default:
+      if (typeof value === 'string') result = sanitizeString(value);
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.includes(result)) {
+    fail(`must be one of ${schema.enum.map((v: unknown) => JSON.stringify(v)).join(', ')}`);
+  }
+  return result;
+};
+
+// Validate and sanitize a call's arguments against the tool's parameter schema
+export const validateArguments = (
+  schema: Record<string, unknown>,
+  args: Record<string, unknown>
+): { args: Record<string, unknown>; problems: string[] } => {
+  const problems: string[] = [];
+  const sanitized = check(schema, args ?? {}, '', problems) as Record<string, unknown>;
+  return { args: sanitized, problems };
+};
+
+// "name" or "name:action"; either part may use * as a wildcard. Matching ignores case.
+const RULE_PATTERN = /^[\w*]+(:\S+)?$/;
+
+export const isValidRule = (rule: string): boolean => RULE_PATTERN.test(rule);
+
+const globToRegExp = (glob: string): RegExp =>
+  new RegExp(`^${glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+
+// A rule names a tool, optionally narrowed to one value of its `action` argument (e.g. trigger_automation)
+interface CompiledRule {
+  name: RegExp;
+  action: RegExp | null;
+}
+
+interface CompiledRules {
+  allow?: CompiledRule[];
+  deny?: CompiledRule[];
+}
+
+const compileRule = (rule: string): CompiledRule => {
+  const colon = rule.indexOf(':');
+  return colon < 0
+    ? { name: globToRegExp(rule), action: null }
+    : { name: globToRegExp(rule.slice(0, colon)), action: globToRegExp(rule.slice(colon + 1)) };
+};
+
+const compileRules = ({ allow, deny }: ToolAccessRules): CompiledRules => ({
+  allow: allow?.map(compileRule),
+  deny: deny?.map(compileRule),
+});
+
+const matches = (rule: CompiledRule, tool: ToolDeclaration, args: Record<string, unknown>): boolean => {
+  if (!rule.name.test(tool.name)) return false;
+  if (!rule.action) return true;
+  return typeof args.action === 'string' && rule.action.test(args.action);
+};
+
+export class ToolPolicy {
+  private compiled = new Map<string, CompiledRules>();
+  private current: Record<string, ToolAccessRules> = {};
+
+  constructor(rules: Record<string, ToolAccessRules>) {
+    this.rules = rules;
+  }
+
+  // Rules by client id; "*" applies to every client. Replaced on config reload, and compiled once here.
+  get rules(): Record<string, ToolAccessRules> {
+    return this.current;
+  }
+
+  set rules(rules: Record<string, ToolAccessRules>) {
+    this.current = rules;
+    this.compiled = new Map(Object.entries(rules).map(([clientId, own]) => [clientId, compileRules(own)]));
+  }
+
+  // Built-in tools (confirm_action, remember_fact, ...) pass through here like configured ones
+  check(clientId: string, tool: ToolDeclaration, args: Record<string, unknown>): PolicyResult {
+    const validated = validateArguments(tool.parameters, args);
+    if (validated.problems.length > 0) {
+      return {
+        ok: false,
+        rejection: {
+          reason: 'invalid_arguments',
+          message: `Arguments for ${tool.name} do not match its schema`,
+          problems: validated.problems,
+        },
+      };
+    }
+
+    // Matched after sanitizing, so hidden characters can't slip an action past a deny rule
+    const everyone = this.rulesFor('*');
+    const own = this.rulesFor(clientId);
+    const matching = (rule: CompiledRule) => matches(rule, tool, validated.args);
+    const deny = [...(everyone.deny ?? []), ...(own.deny ?? [])];
+    const allow = own.allow ?? everyone.allow;
+    if (deny.some(matching) || (allow && !allow.some(matching))) {
+      const action = typeof validated.args.action === 'string' ? ` (${validated.args.action})` : '';
+      return { ok: false, rejection: { reason: 'not_allowed', message: `${tool.name}${action} is not allowed on this device` } };
+    }
+    return { ok: true, args: validated.args };
+  }
+
+  // A Map, so ids like "__proto__" or "constructor" don't pick up inherited objects
+  private rulesFor(clientId: string): CompiledRules {
+    return this.compiled.get(clientId) ?? {};
+  }
+}
@@ -0,0 +1,168 @@
+import { readFileSync, existsSync } from 'fs';
+
+/**
+ * TOOL REGISTRY
+ * Tools are declared in a JSON config file. Each entry is advertised to the
+ * model as a function declaration and routed to its own n8n webhook when called,
+ * or, for `client` tools, to the user's browser (see server/client-tools.ts).
+ * `${NAME}` placeholders in webhook URLs and headers are filled from the
+ * environment, falling back to the gateway config's named webhook targets.
+ */
+
+export interface ToolConfig {
+  name: string;
+  description: string;
+  // Standard JSON schema describing the tool arguments
+  parameters: Record<string, unknown>;
+  // n8n webhook that executes this tool; unset for client tools
+  webhookUrl?: string;
+  // Extra headers sent with every webhook request (auth tokens, etc.)
+  headers?: Record<string, string>;
+  // Per-call timeout (default 10s, or 30s for client tools, which wait for the user's permission)
+  timeoutMs?: number;
+  // Safe to repeat: transient failures are retried
+  idempotent?: boolean;
+  // Retries for idempotent tools (default 2)
+  retries?: number;
+  // Sensitive action: the user must say yes (or tap confirm) before it runs
+  requiresConfirmation?: boolean;
+  // Question put to the user, with {arg} placeholders (e.g. "Unlock the {door} door?").
+  // Client tools ask it as their permission prompt.
+  confirmationPrompt?: string;
+  // Long-running workflow: the webhook only starts it and reports back later (see server/jobs.ts)
+  async?: boolean;
+  // Runs in the user's browser (timers, clipboard, location...) instead of n8n
+  client?: boolean;
+}
+
+// Webhook-only settings that a client tool can't have
+const WEBHOOK_FIELDS = ['webhookUrl', 'headers', 'idempotent', 'retries', 'async'];
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]{0,63}$/;
+
+// Values for ${NAME} placeholders
+export type ToolVariables = Record<string, string | undefined>;
+
+// Replace ${VAR} placeholders so secrets and hostnames stay out of the tool file
+const interpolate = (value: string, vars: ToolVariables): string =>
+  value.replace(/\$\{(\w+)\}/g, (_, name) => vars[name] || '');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const parseTool = (entry: unknown, index: number, vars: ToolVariables): ToolConfig => {
+  const where = `tools[${index}]`;
+  if (!isObject(entry)) {
+    throw new Error(`${where}: expected an object`);
+  }
+  const { name, description } = entry;
+  if (typeof name !== 'string' || !TOOL_NAME_PATTERN.test(name)) {
+    throw new Error(`${where}: "name" must match ${TOOL_NAME_PATTERN}`);
+  }
+  if (typeof description !== 'string' || !description) {
+    throw new Error(`${where} (${name}): "description" is required`);
+  }
+  // Unset, or a value `is` accepts
+  const optional = <T>(key: string, is: (value: unknown) => value is T, expected: string): T | undefined => {
+    const value = entry[key];
+    if (value === undefined) return undefined;
+    if (!is(value)) throw new Error(`${where} (${name}): "${key}" must be ${expected}`);
+    return value;
+  };
+
+  const client = optional('client', isBoolean, 'a boolean');
+  let webhookUrl: string | undefined;
+  if (client) {
+    const webhookField = WEBHOOK_FIELDS.find(key => entry[key] !== undefined);
+    if (webhookField) {
+      throw new Error(`${where} (${name}): "${webhookField}" does not apply to client tools`);
+    }
+    // The browser asks before every call anyway
+    if (entry.requiresConfirmation !== undefined) {
+      throw new Error(`${where} (${name}): "requiresConfirmation" does not apply to client tools; the browser always asks`);
+    }
+  } else if (typeof entry.webhookUrl !== 'string' || !entry.webhookUrl) {
+    throw new Error(`${where} (${name}): "webhookUrl" is required`);
+  } else {
+    webhookUrl = interpolate(entry.webhookUrl, vars);
+  }
+  const parameters = entry.parameters ?? { type: 'object', properties: {} };
+  if (!isObject(parameters) || parameters.type !== 'object') {
+    throw new Error(`${where} (${name}): "parameters" must be a JSON schema of type "object"`);
+  }
+
+  const timeoutMs = optional('timeoutMs', isCount, 'a non-negative integer');
+  const retries = optional('retries', isCount, 'a non-negative integer');
+  const idempotent = optional('idempotent', isBoolean, 'a boolean');
+  const requiresConfirmation = optional('requiresConfirmation', isBoolean, 'a boolean');
+  const isAsync = optional('async', isBoolean, 'a boolean');
+  const confirmationPrompt = optional('confirmationPrompt', isString, 'a string');
+
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(optional('headers', isObject, 'an object') ?? {})) {
+    if (typeof value !== 'string') {
+      throw new Error(`${where} (${name}): header "${key}" must be a string`);
+    }
+    headers[key] = interpolate(value, vars);
+  }
+
+  return {
+    name,
+    description,
+    parameters,
+    webhookUrl,
+    headers,
+    timeoutMs,
+    idempotent: idempotent ?? false,
+    retries,
+    requiresConfirmation: requiresConfirmation ?? false,
+    confirmationPrompt,
+    async: isAsync ?? false,
+    client: client ?? false,
+  };
+};
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolConfig>();
+
+  constructor(tools: ToolConfig[]) {
+    for (const tool of tools) {
+      if (this.tools.has(tool.name)) {
+        throw new Error(`Duplicate tool name: ${tool.name}`);
+      }
+      this.tools.set(tool.name, tool);
+    }
+  }
+
+  // Validate raw tool entries (from a tool file or inline in the gateway config)
+  static parse(raw: unknown, source: string, vars: ToolVariables = process.env): ToolRegistry {
+    if (!Array.isArray(raw)) {
+      throw new Error(`${source}: expected a "tools" array`);
+    }
+    try {
+      return new ToolRegistry(raw.map((entry, i) => parseTool(entry, i, vars)));
+    } catch (err) {
+      throw new Error(`${source}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  // Load tools from a JSON file shaped like { "tools": [...] }
+  static fromFile(path: string, vars: ToolVariables = process.env): ToolRegistry {
+    if (!existsSync(path)) {
+      throw new Error(`Tool config not found: ${path}`);
+    }
+    const json = JSON.parse(readFileSync(path, 'utf-8'));
+    return ToolRegistry.parse(json?.tools, path, vars);
+  }
+
+  get(name: string): ToolConfig | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): ToolConfig[] {
+    return Array.from(this.tools.values());
+  }
+}
@@ -0,0 +1,127 @@
+import { readFileSync, existsSync } from 'fs';
+import { logger } from './logger';
+import { writeJsonAtomic } from './files';
+
+/**
+ * USAGE LIMITS
+ * Per-client quotas. Daily counters are persisted to a JSON file so a restart
+ * doesn't hand everyone a fresh allowance; the per-minute tool window is kept
+ * in memory only.
+ */
+
+export interface Limits {
+  // Sessions a single client identity may hold open at once (including parked ones)
+  maxConcurrentSessions: number;
+  // Hard cap on one conversation's length
+  maxSessionSeconds: number;
+  // Inbound audio a client may stream per UTC day
+  audioSecondsPerDay: number;
+  // Tool calls a client may trigger in any rolling minute
+  toolCallsPerMinute: number;
+}
+
+export const DEFAULT_LIMITS: Limits = {
+  maxConcurrentSessions: 2,
+  maxSessionSeconds: 30 * 60,
+  audioSecondsPerDay: 60 * 60,
+  toolCallsPerMinute: 20,
+};
+
+interface DailyUsage {
+  audioSeconds: number;
+  toolCalls: number;
+  sessions: number;
+}
+
+// { "2025-01-31": { "<clientId>": DailyUsage } }
+type UsageFile = Record<string, Record<string, DailyUsage>>;
+
+const FLUSH_INTERVAL_MS = 5000;
+const RETAIN_DAYS = 7;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export class UsageStore {
+  private data: UsageFile = {};
+  private toolCallTimes = new Map<string, number[]>();
+  private dirty = false;
+  private flushTimer: NodeJS.Timeout;
+
+  // Replaced on config reload; running sessions keep the duration cap they started with
+  constructor(private path: string, public limits: Limits) {
+    if (existsSync(path)) {
+      try {
+        this.data = JSON.parse(readFileSync(path, 'utf-8'));
+      } catch (err) {
+        logger.error('Ignoring unreadable usage file', { path, err });
+      }
+    }
+    this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    this.flushTimer.unref();
+  }
+
+  private usageFor(clientId: string): DailyUsage {
+    const day = (this.data[today()] ??= {});
+    return (day[clientId] ??= { audioSeconds: 0, toolCalls: 0, sessions: 0 });
+  }
+
+  recordSession(clientId: string) {
+    this.usageFor(clientId).sessions++;
+    this.dirty = true;
+  }
+
+  remainingAudioSeconds(clientId: string): number {
+    return Math.max(0, this.limits.audioSecondsPerDay - this.usageFor(clientId).audioSeconds);
+  }
+
+  // Returns false once the client is over its daily audio allowance
+  recordAudio(clientId: string, seconds: number): boolean {
+    const usage = this.usageFor(clientId);
+    usage.audioSeconds += seconds;
+    this.dirty = true;
+    return usage.audioSeconds <= this.limits.audioSecondsPerDay;
+  }
+
+  // Returns false (and records nothing) when the rolling-minute budget is spent
+  recordToolCall(clientId: string): boolean {
+    const now = Date.now();
+    const recent = (this.toolCallTimes.get(clientId) ?? []).filter(t => now - t < 60000);
+    if (recent.length >= this.limits.toolCallsPerMinute) {
+      this.toolCallTimes.set(clientId, recent);
+      return false;
+    }
+    recent.push(now);
+    this.toolCallTimes.set(clientId, recent);
+    this.usageFor(clientId).toolCalls++;
+    this.dirty = true;
+    return true;
+  }
+
+  // Seconds until the oldest call in the window drops out
+  toolCallRetryAfter(clientId: string): number {
+    const oldest = this.toolCallTimes.get(clientId)?.[0];
+    return oldest ? Math.max(1, Math.ceil((oldest + 60000 - Date.now()) / 1000)) : 0;
+  }
+
+  flush() {
+    if (!this.dirty) return;
+    this.dirty = false;
+
+    const cutoff = new Date(Date.now() - RETAIN_DAYS * 86400000).toISOString().slice(0, 10);
+    for (const day of Object.keys(this.data)) {
+      if (day < cutoff) delete this.data[day];
+    }
+
+    try {
+      writeJsonAtomic(this.path, this.data);
+    } catch (err) {
+      logger.error('Failed to persist usage', { err });
+      this.dirty = true;
+    }
+  }
+
+  close() {
+    clearInterval(this.flushTimer);
+    this.flush();
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parseClientMessage } from './protocol';
+
+const errorFor = (frame: unknown) => {
+  const parsed = parseClientMessage(JSON.stringify(frame));
+  expect(parsed.ok).toBe(false);
+  return parsed.error;
+};
+
+describe('unknown message types', () => {
+  it('echoes a short prefix of a string type', () => {
+    const error = errorFor({ type: 'x'.repeat(500) });
+    expect(error.code).toBe('unknown_type');
+    expect(error.message).toBe(`Unknown message type: "${'x'.repeat(32)}"`);
+  });
+
+  it('echoes only the kind of any other type', () => {
+    expect(errorFor({ type: ['a'.repeat(10000)] }).message).toBe('Unknown message type: (object)');
+    expect(errorFor({ type: 12 }).message).toBe('Unknown message type: (number)');
+    expect(errorFor({}).message).toBe('Unknown message type: (undefined)');
+  });
+
+  it('does not take inherited keys for types', () => {
+    expect(errorFor({ type: 'constructor' }).code).toBe('unknown_type');
+  });
+});
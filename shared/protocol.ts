@@ -0,0 +1,461 @@
+/**
+ * CLIENT <-> GATEWAY WIRE PROTOCOL
+ * Shared by the browser and server/gateway.ts. Every frame is a JSON object
+ * with a `type` discriminator. The client opens with `hello`, the gateway
+ * answers with `welcome` (or an error frame and a close) before anything else.
+ * A `standby` connection opens no conversation and only receives announcements.
+ */
+
+export const PROTOCOL_VERSION = 1;
+
+// WebSocket close codes used by the gateway (4000-4999 is reserved for applications)
+export const CloseCode = {
+  PROTOCOL_ERROR: 4400,
+  UNAUTHORIZED: 4401,
+  UNKNOWN_PROFILE: 4404,
+  HANDSHAKE_TIMEOUT: 4408,
+  SESSION_TAKEN_OVER: 4409,
+  SESSION_TERMINATED: 4410,
+  UNSUPPORTED_AUDIO: 4415,
+  UNSUPPORTED_VERSION: 4426,
+  LIMIT_EXCEEDED: 4429,
+  UPSTREAM_FAILED: 4502,
+} as const;
+
+// The close reason sent with each code. Details go in the `error` frame: a
+// reason is capped at 123 bytes and must never carry client-supplied text.
+export const CLOSE_REASONS: Record<number, string> = {
+  [CloseCode.PROTOCOL_ERROR]: 'Protocol error',
+  [CloseCode.UNAUTHORIZED]: 'Unauthorized',
+  [CloseCode.UNKNOWN_PROFILE]: 'Unknown profile',
+  [CloseCode.HANDSHAKE_TIMEOUT]: 'No hello received',
+  [CloseCode.SESSION_TAKEN_OVER]: 'Session resumed elsewhere',
+  [CloseCode.SESSION_TERMINATED]: 'Session terminated',
+  [CloseCode.UNSUPPORTED_AUDIO]: 'Unsupported audio format',
+  [CloseCode.UNSUPPORTED_VERSION]: 'Unsupported protocol version',
+  [CloseCode.LIMIT_EXCEEDED]: 'Limit exceeded',
+  [CloseCode.UPSTREAM_FAILED]: 'Assistant unavailable',
+};
+
+export type TextRole = 'user' | 'assistant' | 'system';
+export type TranscriptRole = 'user' | 'assistant';
+
+export type LimitKind = 'concurrent_sessions' | 'session_duration' | 'audio_daily' | 'tool_rate';
+
+export type ErrorCode =
+  | 'malformed'           // Not JSON, or fields of the wrong shape
+  | 'unknown_type'        // Valid JSON but an unrecognised `type`
+  | 'handshake_required'  // A frame arrived before `hello`
+  | 'unsupported_version' // Client speaks a protocol version we don't
+  | 'unauthorized'        // Missing, invalid or expired auth token
+  | 'unknown_profile'     // `hello` named a profile the gateway doesn't have
+  | 'audio_format'        // An audio format the gateway can't handle, or audio it failed to decode/encode
+  | 'video_frame'         // A camera/screen frame was refused (too large, too frequent, or sharing is off)
+  | 'upstream'            // The model session failed
+  | 'terminated'          // An operator ended the session
+  | 'internal';           // Anything else on the gateway side
+
+// `cancelled`: the model dropped the call before anyone answered
+export type ConfirmOutcome = 'approved' | 'denied' | 'expired' | 'cancelled';
+
+// Longest typed message the gateway accepts
+export const MAX_TEXT_LENGTH = 2000;
+
+// Longest profile name a `hello` may ask for
+export const MAX_PROFILE_NAME_LENGTH = 64;
+
+// Audio the client sends: raw PCM16 at any rate, or the WebM/Opus chunks MediaRecorder produces
+export type InputAudioEncoding = 'pcm16' | 'webm_opus';
+// Audio the client receives. Compressed encodings come as one stream per assistant turn.
+export type OutputAudioEncoding = 'pcm16' | 'webm_opus' | 'mp3';
+
+export interface AudioFormat<E extends string> {
+  encoding: E;
+  // Mono sample rate, for pcm16 only
+  sampleRate?: number;
+}
+
+export interface AudioFormats {
+  input: AudioFormat<InputAudioEncoding>;
+  output: AudioFormat<OutputAudioEncoding>;
+}
+
+// What the model speaks; clients that don't ask for anything else get exactly this
+export const DEFAULT_AUDIO_FORMATS: AudioFormats = {
+  input: { encoding: 'pcm16', sampleRate: 16000 },
+  output: { encoding: 'pcm16', sampleRate: 24000 },
+};
+export const MIN_SAMPLE_RATE = 8000;
+export const MAX_SAMPLE_RATE = 48000;
+
+export type VideoSource = 'camera' | 'screen';
+export type ImageMimeType = 'image/jpeg' | 'image/png';
+
+// How much camera/screen sharing the gateway accepts; frames beyond it are dropped
+export interface VideoLimits {
+  maxFramesPerSecond: number;
+  // Decoded size of one frame
+  maxFrameBytes: number;
+}
+
+// --- Client -> Gateway ---
+
+export interface HelloMessage {
+  type: 'hello';
+  version: number;
+  // Token from a previous `welcome`, to rejoin that conversation after a drop
+  resumeToken?: string;
+  // Signed client token, unless it was already given as `?token=` on the URL
+  authToken?: string;
+  // Only listen for announcements; no conversation is started
+  standby?: boolean;
+  // Named assistant profile from the gateway config (its default when unset)
+  profile?: string;
+  // Audio formats this client sends and wants back; DEFAULT_AUDIO_FORMATS for anything left out
+  audio?: Partial<AudioFormats>;
+}
+
+export interface ClientAudioMessage {
+  type: 'audio';
+  data: string; // base64, in the input format agreed in `welcome`
+}
+
+// A still from the shared camera or screen, for the model to look at
+export interface ClientVideoFrameMessage {
+  type: 'video_frame';
+  source: VideoSource;
+  mimeType: ImageMimeType;
+  data: string; // base64 image
+}
+
+// A typed message, handled by the assistant like a spoken user turn
+export interface ClientTextMessage {
+  type: 'text';
+  text: string;
+}
+
+// The user's answer from the on-screen card for a `confirm_request`
+export interface ConfirmResponseMessage {
+  type: 'confirm_response';
+  id: string;
+  approved: boolean;
+}
+
+// What the browser's handler made of a `tool_call`
+export interface ToolResultMessage {
+  type: 'tool_result';
+  id: string;
+  // Handler output, passed to the model as is
+  result?: unknown;
+  // The handler failed or the browser has no handler for the tool
+  error?: string;
+  // The user refused permission; nothing was done
+  denied?: boolean;
+}
+
+export type ClientMessage =
+  | HelloMessage
+  | ClientAudioMessage
+  | ClientVideoFrameMessage
+  | ClientTextMessage
+  | ConfirmResponseMessage
+  | ToolResultMessage;
+
+// --- Gateway -> Client ---
+
+export interface WelcomeMessage {
+  type: 'welcome';
+  version: number;
+  // Present this in the next `hello` to resume the conversation (empty on standby connections)
+  sessionToken: string;
+  // True when an existing conversation was picked up again
+  resumed: boolean;
+  standby?: boolean;
+  // The audio formats in effect for this connection (absent on standby connections)
+  audio?: AudioFormats;
+  // Present when the conversation accepts camera/screen frames
+  video?: VideoLimits;
+}
+
+export interface ServerAudioMessage {
+  type: 'audio';
+  data: string; // base64, in the output format agreed in `welcome`
+  // First chunk of a new compressed stream (a new turn): start a fresh decoder
+  newStream?: boolean;
+}
+
+export interface TextMessage {
+  type: 'text';
+  payload: { role: TextRole; text: string };
+}
+
+// Live caption of either side. `text` is the whole utterance so far; `final` marks it complete
+export interface TranscriptMessage {
+  type: 'transcript';
+  role: TranscriptRole;
+  text: string;
+  final: boolean;
+}
+
+export interface InterruptMessage {
+  type: 'interrupt';
+}
+
+export interface ErrorMessage {
+  type: 'error';
+  code: ErrorCode;
+  message: string;
+  // The gateway closes the socket right after a fatal error
+  fatal: boolean;
+}
+
+// A usage quota was hit. For connection-level limits the socket is closed with LIMIT_EXCEEDED right after.
+export interface LimitMessage {
+  type: 'limit';
+  limit: LimitKind;
+  message: string;
+  // When the client may try again, if known
+  retryAfterSeconds?: number;
+}
+
+// A sensitive tool call is on hold until the user approves it, by voice or with `confirm_response`
+export interface ConfirmRequestMessage {
+  type: 'confirm_request';
+  id: string;
+  tool: string;
+  args: Record<string, unknown>;
+  // Question to show, e.g. "Unlock the front door?"
+  prompt: string;
+  expiresInSeconds: number;
+}
+
+export interface ConfirmResolvedMessage {
+  type: 'confirm_resolved';
+  id: string;
+  outcome: ConfirmOutcome;
+}
+
+// A tool that runs on the user's device. The browser asks `prompt`, runs its
+// handler for `name` if allowed and answers with `tool_result`.
+export interface ToolCallMessage {
+  type: 'tool_call';
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  // Permission question, e.g. "Open https://example.com?"
+  prompt: string;
+  expiresInSeconds: number;
+}
+
+// The gateway stopped waiting for a `tool_call` (timed out); drop its prompt
+export interface ToolCancelMessage {
+  type: 'tool_cancel';
+  id: string;
+}
+
+// Pushed by an automation (e.g. "The washing machine is done"), to be shown and read out
+export interface AnnouncementMessage {
+  type: 'announcement';
+  id: string;
+  text: string;
+  title?: string;
+}
+
+export type ServerMessage =
+  | WelcomeMessage
+  | ServerAudioMessage
+  | TextMessage
+  | TranscriptMessage
+  | InterruptMessage
+  | ErrorMessage
+  | LimitMessage
+  | ConfirmRequestMessage
+  | ConfirmResolvedMessage
+  | ToolCallMessage
+  | ToolCancelMessage
+  | AnnouncementMessage;
+
+// --- Validation ---
+
+export class ProtocolError extends Error {
+  constructor(public code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+export type ParseResult<T> =
+  | { ok: true; message: T; error?: undefined }
+  | { ok: false; message?: undefined; error: ProtocolError };
+
+// Each validator returns a description of the first problem found, or null if the frame is well-formed
+type Validator = (msg: Record<string, any>) => string | null;
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.length > 0;
+const isInteger = (v: unknown): v is number => Number.isInteger(v);
+
+const INPUT_ENCODINGS: InputAudioEncoding[] = ['pcm16', 'webm_opus'];
+const OUTPUT_ENCODINGS: OutputAudioEncoding[] = ['pcm16', 'webm_opus', 'mp3'];
+
+const audioFormatProblem = (format: any, field: string, encodings: string[]): string | null => {
+  if (!format || typeof format !== 'object') return `"${field}" must be an object`;
+  if (!encodings.includes(format.encoding)) return `"${field}.encoding" must be one of ${encodings.join(', ')}`;
+  if (format.sampleRate === undefined) return null;
+  if (format.encoding !== 'pcm16') return `"${field}.sampleRate" only applies to pcm16`;
+  return isInteger(format.sampleRate) && format.sampleRate >= MIN_SAMPLE_RATE && format.sampleRate <= MAX_SAMPLE_RATE
+    ? null
+    : `"${field}.sampleRate" must be an integer from ${MIN_SAMPLE_RATE} to ${MAX_SAMPLE_RATE}`;
+};
+
+const audioFormatsProblem = (audio: any, partial: boolean): string | null => {
+  if (!audio || typeof audio !== 'object' || Array.isArray(audio)) return '"audio" must be an object';
+  if (!partial || audio.input !== undefined) {
+    const problem = audioFormatProblem(audio.input, 'audio.input', INPUT_ENCODINGS);
+    if (problem) return problem;
+  }
+  if (!partial || audio.output !== undefined) return audioFormatProblem(audio.output, 'audio.output', OUTPUT_ENCODINGS);
+  return null;
+};
+
+const VIDEO_SOURCES: VideoSource[] = ['camera', 'screen'];
+const IMAGE_MIME_TYPES: ImageMimeType[] = ['image/jpeg', 'image/png'];
+
+const TEXT_ROLES: TextRole[] = ['user', 'assistant', 'system'];
+const TRANSCRIPT_ROLES: TranscriptRole[] = ['user', 'assistant'];
+const LIMIT_KINDS: LimitKind[] = ['concurrent_sessions', 'session_duration', 'audio_daily', 'tool_rate'];
+const CONFIRM_OUTCOMES: ConfirmOutcome[] = ['approved', 'denied', 'expired', 'cancelled'];
+
+const clientValidators: Record<ClientMessage['type'], Validator> = {
+  hello: m => {
+    if (!isInteger(m.version)) return '"version" must be an integer';
+    if (m.resumeToken !== undefined && !isNonEmptyString(m.resumeToken)) return '"resumeToken" must be a string';
+    if (m.authToken !== undefined && !isNonEmptyString(m.authToken)) return '"authToken" must be a string';
+    if (m.standby !== undefined && typeof m.standby !== 'boolean') return '"standby" must be a boolean';
+    if (m.profile !== undefined && !isNonEmptyString(m.profile)) return '"profile" must be a string';
+    if (m.profile !== undefined && m.profile.length > MAX_PROFILE_NAME_LENGTH) {
+      return `"profile" must be at most ${MAX_PROFILE_NAME_LENGTH} characters`;
+    }
+    return m.audio === undefined ? null : audioFormatsProblem(m.audio, true);
+  },
+  audio: m => (isNonEmptyString(m.data) ? null : '"data" must be a non-empty base64 string'),
+  video_frame: m => {
+    if (!VIDEO_SOURCES.includes(m.source)) return `"source" must be one of ${VIDEO_SOURCES.join(', ')}`;
+    if (!IMAGE_MIME_TYPES.includes(m.mimeType)) return `"mimeType" must be one of ${IMAGE_MIME_TYPES.join(', ')}`;
+    return isNonEmptyString(m.data) ? null : '"data" must be a non-empty base64 string';
+  },
+  text: m => {
+    if (!isString(m.text) || !m.text.trim()) return '"text" must be a non-empty string';
+    return m.text.length <= MAX_TEXT_LENGTH ? null : `"text" must be at most ${MAX_TEXT_LENGTH} characters`;
+  },
+  confirm_response: m => {
+    if (!isNonEmptyString(m.id)) return '"id" must be a string';
+    return typeof m.approved === 'boolean' ? null : '"approved" must be a boolean';
+  },
+  tool_result: m => {
+    if (!isNonEmptyString(m.id)) return '"id" must be a string';
+    if (m.error !== undefined && !isString(m.error)) return '"error" must be a string';
+    return m.denied === undefined || typeof m.denied === 'boolean' ? null : '"denied" must be a boolean';
+  },
+};
+
+const serverValidators: Record<ServerMessage['type'], Validator> = {
+  welcome: m => {
+    if (!isInteger(m.version)) return '"version" must be an integer';
+    if (m.standby !== undefined && typeof m.standby !== 'boolean') return '"standby" must be a boolean';
+    if (!(m.standby ? isString : isNonEmptyString)(m.sessionToken)) return '"sessionToken" must be a string';
+    if (typeof m.resumed !== 'boolean') return '"resumed" must be a boolean';
+    const audioProblem = m.audio === undefined ? null : audioFormatsProblem(m.audio, false);
+    if (audioProblem) return audioProblem;
+    if (m.video === undefined) return null;
+    return m.video && isInteger(m.video.maxFramesPerSecond) && isInteger(m.video.maxFrameBytes)
+      ? null
+      : '"video" must have integer "maxFramesPerSecond" and "maxFrameBytes"';
+  },
+  audio: m => {
+    if (!isNonEmptyString(m.data)) return '"data" must be a non-empty base64 string';
+    return m.newStream === undefined || typeof m.newStream === 'boolean' ? null : '"newStream" must be a boolean';
+  },
+  text: m => {
+    if (!m.payload || typeof m.payload !== 'object') return '"payload" must be an object';
+    if (!TEXT_ROLES.includes(m.payload.role)) return `"payload.role" must be one of ${TEXT_ROLES.join(', ')}`;
+    return isString(m.payload.text) ? null : '"payload.text" must be a string';
+  },
+  transcript: m => {
+    if (!TRANSCRIPT_ROLES.includes(m.role)) return `"role" must be one of ${TRANSCRIPT_ROLES.join(', ')}`;
+    if (!isString(m.text)) return '"text" must be a string';
+    return typeof m.final === 'boolean' ? null : '"final" must be a boolean';
+  },
+  interrupt: () => null,
+  error: m => {
+    if (!isNonEmptyString(m.code)) return '"code" must be a string';
+    if (!isString(m.message)) return '"message" must be a string';
+    return typeof m.fatal === 'boolean' ? null : '"fatal" must be a boolean';
+  },
+  limit: m => {
+    if (!LIMIT_KINDS.includes(m.limit)) return `"limit" must be one of ${LIMIT_KINDS.join(', ')}`;
+    if (!isString(m.message)) return '"message" must be a string';
+    return m.retryAfterSeconds === undefined || isInteger(m.retryAfterSeconds) ? null : '"retryAfterSeconds" must be an integer';
+  },
+  confirm_request: m => {
+    if (!isNonEmptyString(m.id)) return '"id" must be a string';
+    if (!isNonEmptyString(m.tool)) return '"tool" must be a string';
+    if (!m.args || typeof m.args !== 'object') return '"args" must be an object';
+    if (!isString(m.prompt)) return '"prompt" must be a string';
+    return isInteger(m.expiresInSeconds) ? null : '"expiresInSeconds" must be an integer';
+  },
+  confirm_resolved: m => {
+    if (!isNonEmptyString(m.id)) return '"id" must be a string';
+    return CONFIRM_OUTCOMES.includes(m.outcome) ? null : `"outcome" must be one of ${CONFIRM_OUTCOMES.join(', ')}`;
+  },
+  tool_call: m => {
+    if (!isNonEmptyString(m.id)) return '"id" must be a string';
+    if (!isNonEmptyString(m.name)) return '"name" must be a string';
+    if (!m.args || typeof m.args !== 'object') return '"args" must be an object';
+    if (!isString(m.prompt)) return '"prompt" must be a string';
+    return isInteger(m.expiresInSeconds) ? null : '"expiresInSeconds" must be an integer';
+  },
+  tool_cancel: m => (isNonEmptyString(m.id) ? null : '"id" must be a string'),
+  announcement: m => {
+    if (!isNonEmptyString(m.id)) return '"id" must be a string';
+    if (!isNonEmptyString(m.text)) return '"text" must be a non-empty string';
+    return m.title === undefined || isString(m.title) ? null : '"title" must be a string';
+  },
+};
+
+// How much of an unrecognised `type` an error repeats back
+const MAX_ECHOED_TYPE_LENGTH = 32;
+
+const parseWith = <T>(raw: string, validators: Record<string, Validator>): ParseResult<T> => {
+  let msg: unknown;
+  try {
+    msg = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: new ProtocolError('malformed', 'Frame is not valid JSON') };
+  }
+
+  if (!msg || typeof msg !== 'object' || Array.isArray(msg)) {
+    return { ok: false, error: new ProtocolError('malformed', 'Frame must be a JSON object') };
+  }
+
+  const type = (msg as Record<string, unknown>).type;
+  if (!isString(type) || !Object.prototype.hasOwnProperty.call(validators, type)) {
+    // Echo at most a short prefix of a string, and only the kind of anything else
+    const shown = isString(type) ? JSON.stringify(type.slice(0, MAX_ECHOED_TYPE_LENGTH)) : `(${typeof type})`;
+    return { ok: false, error: new ProtocolError('unknown_type', `Unknown message type: ${shown}`) };
+  }
+
+  const problem = validators[type](msg as Record<string, any>);
+  if (problem) {
+    return { ok: false, error: new ProtocolError('malformed', `Invalid "${type}" message: ${problem}`) };
+  }
+  return { ok: true, message: msg as T };
+};
+
+export const parseClientMessage = (raw: string): ParseResult<ClientMessage> =>
+  parseWith<ClientMessage>(raw, clientValidators);
+
+export const parseServerMessage = (raw: string): ParseResult<ServerMessage> =>
+  parseWith<ServerMessage>(raw, serverValidators);
+
+export const encodeMessage = (msg: ClientMessage | ServerMessage): string => JSON.stringify(msg);
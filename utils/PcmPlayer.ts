@@ -0,0 +1,88 @@
+import { pcm16ToFloat32 } from './audioUtils';
+
+export const PLAYBACK_SAMPLE_RATE = 24000;
+
+// Gapless player for streamed PCM16 chunks (Gemini Live outputs 24 kHz mono).
+// Each chunk is scheduled to start exactly when the previous one ends.
+export class PcmPlayer {
+  private ctx: AudioContext;
+  private output: GainNode;
+  private nextStartTime = 0;
+  private sources = new Set<AudioBufferSourceNode>();
+
+  public readonly analyser: AnalyserNode;
+  // Fired when the queue drains or is flushed
+  public onIdle: (() => void) | null = null;
+
+  constructor(sampleRate: number = PLAYBACK_SAMPLE_RATE) {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    this.ctx = new AudioContextClass({ sampleRate });
+    this.output = this.ctx.createGain();
+    this.analyser = this.ctx.createAnalyser();
+    this.analyser.fftSize = 256;
+    this.output.connect(this.analyser);
+    this.analyser.connect(this.ctx.destination);
+  }
+
+  // Loudness of the assistant's voice, 0 (muted) to 1
+  get volume(): number {
+    return this.output.gain.value;
+  }
+
+  set volume(level: number) {
+    if (Number.isFinite(level)) this.output.gain.value = Math.max(0, Math.min(1, level));
+  }
+
+  get isPlaying(): boolean {
+    return this.sources.size > 0;
+  }
+
+  async resume() {
+    if (this.ctx.state === 'suspended') {
+      await this.ctx.resume();
+    }
+  }
+
+  enqueue(pcm: Int16Array) {
+    if (pcm.length === 0) return;
+
+    const buffer = this.ctx.createBuffer(1, pcm.length, this.ctx.sampleRate);
+    buffer.copyToChannel(pcm16ToFloat32(pcm), 0);
+
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.output);
+
+    // If we fell behind (network gap), restart the timeline slightly ahead of now
+    const startAt = Math.max(this.nextStartTime, this.ctx.currentTime + 0.02);
+    source.start(startAt);
+    this.nextStartTime = startAt + buffer.duration;
+
+    this.sources.add(source);
+    source.onended = () => {
+      this.sources.delete(source);
+      if (this.sources.size === 0) this.onIdle?.();
+    };
+  }
+
+  // Drop everything queued, e.g. when the user barges in
+  flush() {
+    const hadAudio = this.sources.size > 0;
+    this.sources.forEach(source => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch (e) { /* ignore if never started */ }
+    });
+    this.sources.clear();
+    this.nextStartTime = 0;
+    if (hadAudio) this.onIdle?.();
+  }
+
+  close() {
+    this.flush();
+    if (this.ctx.state !== 'closed') {
+      this.ctx.close();
+    }
+  }
+}
@@ -172,6 +172,65 @@ class SoundManager {
             osc.stop(t + 0.8);
         });
     }
+
+    public playAnnouncement() {
+        if (!this.ctx || !this.masterGain) return;
+        const t = this.ctx.currentTime;
+
+        // "Ding-dong" doorbell: two bell tones, high then low, so it can't be mistaken for a reply
+        const notes = [
+            { freq: 1318.51, at: 0 },    // E6
+            { freq: 1046.5, at: 0.28 },  // C6
+        ];
+
+        notes.forEach(({ freq, at }) => {
+            [1, 2.01].forEach((harmonic, i) => {
+                const osc = this.ctx.createOscillator();
+                const gain = this.ctx.createGain();
+
+                osc.type = i === 0 ? 'triangle' : 'sine';
+                osc.frequency.value = freq * harmonic;
+
+                gain.gain.setValueAtTime(0.0, t + at);
+                gain.gain.linearRampToValueAtTime(i === 0 ? 0.12 : 0.03, t + at + 0.01);
+                gain.gain.exponentialRampToValueAtTime(0.001, t + at + 0.9);
+
+                osc.connect(gain);
+                gain.connect(this.masterGain);
+
+                osc.start(t + at);
+                osc.stop(t + at + 0.9);
+            });
+        });
+    }
+
+    public playTimerAlarm() {
+        if (!this.ctx || !this.masterGain) return;
+        const t = this.ctx.currentTime;
+
+        // Kitchen-timer beeps: three groups of three short square pulses
+        for (let group = 0; group < 3; group++) {
+            for (let beep = 0; beep < 3; beep++) {
+                const at = group * 0.9 + beep * 0.15;
+                const osc = this.ctx.createOscillator();
+                const gain = this.ctx.createGain();
+
+                osc.type = 'square';
+                osc.frequency.value = 2093; // C7
+
+                gain.gain.setValueAtTime(0.0, t + at);
+                gain.gain.linearRampToValueAtTime(0.06, t + at + 0.005);
+                gain.gain.setValueAtTime(0.06, t + at + 0.08);
+                gain.gain.linearRampToValueAtTime(0.0, t + at + 0.1);
+
+                osc.connect(gain);
+                gain.connect(this.masterGain);
+
+                osc.start(t + at);
+                osc.stop(t + at + 0.1);
+            }
+        }
+    }
 }
 
 export const soundManager = new SoundManager();
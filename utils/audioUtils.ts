@@ -23,3 +23,40 @@ export function base64ToBlob(base64: string, mimeType: string = 'audio/mpeg'): B
   return new Blob([byteArray], { type: mimeType });
 }
 
+// Converts Web Audio float samples (-1..1) to 16-bit little-endian PCM
+export function float32ToPcm16(data: Float32Array): Int16Array {
+  const pcm = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const s = Math.max(-1, Math.min(1, data[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm;
+}
+
+// Converts 16-bit PCM back to float samples for an AudioBuffer
+export function pcm16ToFloat32(pcm: Int16Array): Float32Array {
+  const data = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    data[i] = pcm[i] / 0x8000;
+  }
+  return data;
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
@@ -0,0 +1,97 @@
+import { soundManager } from './SoundManager';
+
+// What client tool handlers may change in the app itself
+export interface DeviceControls {
+  // Loudness of the assistant's voice, 0 to 1
+  setVolume: (level: number) => void;
+}
+
+// Runs one `tool_call` from the gateway. The return value goes back to the
+// model as the tool result; a thrown error is reported as the tool's error.
+export type ClientToolHandler = (args: Record<string, any>, device: DeviceControls) => Promise<unknown>;
+
+const ALLOWED_TOOLS_STORAGE_KEY = 'nexora.allowedTools';
+const LOCATION_TIMEOUT_MS = 10000;
+
+const readAllowed = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ALLOWED_TOOLS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+// Tools the user told us to always allow on this device; the rest ask every time
+export const isToolAllowed = (name: string): boolean => readAllowed().includes(name);
+
+export const allowTool = (name: string) => {
+  const allowed = readAllowed();
+  if (!allowed.includes(name)) {
+    localStorage.setItem(ALLOWED_TOOLS_STORAGE_KEY, JSON.stringify([...allowed, name]));
+  }
+};
+
+const ringTimer = (label: string) => {
+  soundManager.playTimerAlarm();
+  if ('Notification' in window && Notification.permission === 'granted') {
+    new Notification('Timer done', { body: label });
+  }
+};
+
+// Browser-side implementations of the gateway's `client` tools (server/tools.json), by name
+export const CLIENT_TOOL_HANDLERS: Record<string, ClientToolHandler> = {
+  set_timer: async ({ seconds, label }) => {
+    const duration = Number(seconds);
+    if (!(duration > 0)) throw new Error('"seconds" must be a positive number');
+    const name = typeof label === 'string' && label.trim() ? label.trim() : 'Timer';
+    // Only asked for once; without it the timer still beeps
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => {});
+    }
+    window.setTimeout(() => ringTimer(name), duration * 1000);
+    return { status: 'started', label: name, endsAt: new Date(Date.now() + duration * 1000).toISOString() };
+  },
+
+  open_url: async ({ url }) => {
+    const target = new URL(String(url));
+    if (target.protocol !== 'https:' && target.protocol !== 'http:') {
+      throw new Error('Only http and https links can be opened');
+    }
+    const opened = window.open(target.href, '_blank');
+    if (!opened) throw new Error('The browser blocked the new tab');
+    opened.opener = null;
+    return { status: 'opened', url: target.href };
+  },
+
+  copy_text: async ({ text }) => {
+    if (typeof text !== 'string' || !text) throw new Error('"text" must be a non-empty string');
+    await navigator.clipboard.writeText(text);
+    return { status: 'copied', characters: text.length };
+  },
+
+  get_location: () =>
+    new Promise((resolve, reject) => {
+      if (!navigator.geolocation) {
+        reject(new Error('This device has no location service'));
+        return;
+      }
+      navigator.geolocation.getCurrentPosition(
+        ({ coords }) => resolve({
+          latitude: coords.latitude,
+          longitude: coords.longitude,
+          accuracyMeters: Math.round(coords.accuracy),
+        }),
+        err => reject(new Error(err.code === err.PERMISSION_DENIED ? 'Location access is blocked in the browser' : err.message)),
+        { timeout: LOCATION_TIMEOUT_MS, maximumAge: 60000 }
+      );
+    }),
+
+  set_volume: async ({ level }, device) => {
+    const percent = Number(level);
+    if (!Number.isFinite(percent)) throw new Error('"level" must be a number from 0 to 100');
+    const clamped = Math.max(0, Math.min(100, Math.round(percent)));
+    device.setVolume(clamped / 100);
+    return { status: 'set', level: clamped };
+  },
+};
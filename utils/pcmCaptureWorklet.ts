@@ -0,0 +1,67 @@
+// AudioWorklet that downsamples microphone input to 16 kHz mono PCM16.
+// The processor source is inlined and loaded through a Blob URL so no extra
+// static asset or bundler config is needed.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+
+const WORKLET_NAME = 'pcm-capture';
+
+const workletSource = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.targetRate = options.processorOptions.targetRate;
+    this.chunkSize = options.processorOptions.chunkSize;
+    this.ratio = sampleRate / this.targetRate;
+    this.buffer = new Int16Array(this.chunkSize);
+    this.offset = 0;
+    this.position = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    // Linear interpolation from the context rate down to the target rate
+    while (this.position < channel.length) {
+      const index = Math.floor(this.position);
+      const frac = this.position - index;
+      const next = index + 1 < channel.length ? channel[index + 1] : channel[index];
+      const sample = Math.max(-1, Math.min(1, channel[index] + (next - channel[index]) * frac));
+      this.buffer[this.offset++] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+
+      if (this.offset === this.chunkSize) {
+        this.port.postMessage(this.buffer.buffer, [this.buffer.buffer]);
+        this.buffer = new Int16Array(this.chunkSize);
+        this.offset = 0;
+      }
+      this.position += this.ratio;
+    }
+    this.position -= channel.length;
+    return true;
+  }
+}
+
+registerProcessor('${WORKLET_NAME}', PcmCaptureProcessor);
+`;
+
+// Registers the processor on the context and returns a node that emits
+// ArrayBuffers of PCM16 through `port.onmessage` (100 ms per chunk by default)
+export async function createPcmCaptureNode(ctx: AudioContext, chunkMs: number = 100): Promise<AudioWorkletNode> {
+  const url = URL.createObjectURL(new Blob([workletSource], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+
+  return new AudioWorkletNode(ctx, WORKLET_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    processorOptions: {
+      targetRate: CAPTURE_SAMPLE_RATE,
+      chunkSize: Math.round(CAPTURE_SAMPLE_RATE * chunkMs / 1000),
+    },
+  });
+}
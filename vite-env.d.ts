@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+// Build-time settings. Vite compiles them into the bundle, so none of them may be secret.
+interface ImportMetaEnv {
+  readonly VITE_N8N_WEBHOOK_URL?: string;
+  readonly VITE_GATEWAY_URL?: string;
+  // Client token for the gateway; local and private builds only
+  readonly VITE_GATEWAY_TOKEN?: string;
+  readonly VITE_PROFILE?: string;
+  readonly VITE_VIDEO_FPS?: string;
+}